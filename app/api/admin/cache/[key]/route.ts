@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCacheStore } from '@/utils/cacheStore';
+import { authenticateAdminRequest } from '@/utils/apiKeys';
+import { getWeatherCacheEntry, purgeCacheKey } from '@/utils/cacheAdmin';
+import { errorJsonResponse } from '@/utils/httpCache';
+import { logger } from '@/utils/logger';
+import { instrumentRoute } from '@/utils/route';
+
+// --- Cache Administration: inspect (GET) or purge (DELETE) a single key ---
+// Keys are the normalized city name or "coords:lat,lon", URL-encoded in the path.
+
+interface RouteParams {
+    params: Promise<{ key: string }>;
+}
+
+async function getCacheEntry(request: NextRequest, { params }: RouteParams) {
+    const auth = await authenticateAdminRequest(request);
+    if (!auth.ok) {
+        return auth.response;
+    }
+
+    const { key } = await params;
+    const store = getCacheStore();
+
+    try {
+        const entry = await getWeatherCacheEntry(store, key);
+        if (!entry) {
+            return errorJsonResponse(`Not Found: No cache entry for key "${key}"`, 404);
+        }
+        return NextResponse.json(entry, { headers: { 'Cache-Control': 'no-store' } });
+    } catch (error) {
+        logger.error('Failed to read cache entry', { cacheKey: key, store: store.name, error });
+        return errorJsonResponse('Service Unavailable: Could not read the cache store', 503);
+    }
+}
+
+// Also removes the forecast and geocoding entries stored under the same key
+async function deleteCacheEntry(request: NextRequest, { params }: RouteParams) {
+    const auth = await authenticateAdminRequest(request);
+    if (!auth.ok) {
+        return auth.response;
+    }
+
+    const { key } = await params;
+    const store = getCacheStore();
+
+    try {
+        const result = await purgeCacheKey(store, key);
+        return NextResponse.json(result, { headers: { 'Cache-Control': 'no-store' } });
+    } catch (error) {
+        logger.error('Failed to purge cache entry', { cacheKey: key, store: store.name, error });
+        return errorJsonResponse('Service Unavailable: Could not update the cache store', 503);
+    }
+}
+
+export const GET = instrumentRoute('/api/admin/cache/[key]', getCacheEntry);
+export const DELETE = instrumentRoute('/api/admin/cache/[key]', deleteCacheEntry);
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCacheStore } from '@/utils/cacheStore';
+import { authenticateAdminRequest } from '@/utils/apiKeys';
+import { flushCache, listWeatherCacheEntries, purgeCachePrefix } from '@/utils/cacheAdmin';
+import { errorJsonResponse } from '@/utils/httpCache';
+import { logger } from '@/utils/logger';
+import { instrumentRoute } from '@/utils/route';
+
+// --- Cache Administration: list entries (GET), purge by prefix or flush everything (DELETE) ---
+
+// GET /api/admin/cache[?prefix=coords:] lists weather_cache entries with their age and remaining TTL
+async function listCacheEntries(request: NextRequest) {
+    const auth = await authenticateAdminRequest(request);
+    if (!auth.ok) {
+        return auth.response;
+    }
+
+    const prefix = request.nextUrl.searchParams.get('prefix') ?? '';
+    const store = getCacheStore();
+
+    try {
+        const entries = await listWeatherCacheEntries(store, prefix);
+        return NextResponse.json({ store: store.name, count: entries.length, entries }, { headers: { 'Cache-Control': 'no-store' } });
+    } catch (error) {
+        logger.error('Failed to list cache entries', { store: store.name, error });
+        return errorJsonResponse('Service Unavailable: Could not read the cache store', 503);
+    }
+}
+
+// DELETE /api/admin/cache?prefix=lon purges matching keys; DELETE /api/admin/cache?all=true flushes everything
+async function purgeCacheEntries(request: NextRequest) {
+    const auth = await authenticateAdminRequest(request);
+    if (!auth.ok) {
+        return auth.response;
+    }
+
+    const prefix = request.nextUrl.searchParams.get('prefix');
+    const flushAll = request.nextUrl.searchParams.get('all') === 'true';
+
+    // An empty prefix would match everything, so a flush has to be asked for explicitly
+    if (!flushAll && !prefix) {
+        return errorJsonResponse('Bad Request: Pass ?prefix= to purge matching keys or ?all=true to flush the cache', 400);
+    }
+
+    const store = getCacheStore();
+
+    try {
+        const result = flushAll ? await flushCache(store) : await purgeCachePrefix(store, prefix as string);
+        return NextResponse.json(result, { headers: { 'Cache-Control': 'no-store' } });
+    } catch (error) {
+        logger.error('Failed to purge cache entries', { store: store.name, error });
+        return errorJsonResponse('Service Unavailable: Could not update the cache store', 503);
+    }
+}
+
+export const GET = instrumentRoute('/api/admin/cache', listCacheEntries);
+export const DELETE = instrumentRoute('/api/admin/cache', purgeCacheEntries);
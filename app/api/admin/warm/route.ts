@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCacheStore } from '@/utils/cacheStore';
+import { authenticateAdminRequest } from '@/utils/apiKeys';
+import { CacheWarmerOptions, getCacheWarmerOptions, warmCache } from '@/utils/cacheWarmer';
+import { errorJsonResponse } from '@/utils/httpCache';
+import { logger } from '@/utils/logger';
+import { instrumentRoute } from '@/utils/route';
+
+export const dynamic = 'force-dynamic';
+
+// Optional per-run overrides of the CACHE_WARMER_* defaults
+function parseOverrides(searchParams: URLSearchParams, defaults: CacheWarmerOptions): CacheWarmerOptions | null {
+    const options = { ...defaults };
+    const overrides: [keyof CacheWarmerOptions, string][] = [['topN', 'topN'], ['upstreamBudget', 'budget']];
+
+    for (const [option, param] of overrides) {
+        const raw = searchParams.get(param);
+        if (raw === null) continue;
+
+        const value = Number(raw);
+        if (!Number.isInteger(value) || value < 0) {
+            return null;
+        }
+        options[option] = value;
+    }
+    return options;
+}
+
+// POST /api/admin/warm[?topN=20&budget=10] refreshes the most requested cities before they expire
+// and returns what was refreshed, skipped (still fresh or over budget) and failed
+async function runCacheWarmer(request: NextRequest) {
+    const auth = await authenticateAdminRequest(request);
+    if (!auth.ok) {
+        return auth.response;
+    }
+
+    const options = parseOverrides(request.nextUrl.searchParams, getCacheWarmerOptions());
+    if (!options) {
+        return errorJsonResponse('Bad Request: topN and budget must be non-negative integers', 400);
+    }
+
+    const store = getCacheStore();
+
+    try {
+        const report = await warmCache(store, options);
+        return NextResponse.json(report, { headers: { 'Cache-Control': 'no-store' } });
+    } catch (error) {
+        logger.error('Cache warming failed', { store: store.name, error });
+        return errorJsonResponse('Service Unavailable: Could not read the cache store', 503);
+    }
+}
+
+export const POST = instrumentRoute('/api/admin/warm', runCacheWarmer);
@@ -0,0 +1,205 @@
+import { NextRequest } from 'next/server';
+import { CacheStore, getCacheStore, isCacheTimestamp } from '@/utils/cacheStore';
+import { serveCached } from '@/utils/cachedFetch';
+import { createSingleFlight } from '@/utils/singleFlight';
+import { readNumberEnv } from '@/utils/env';
+import type { DailyForecast, ForecastData, ForecastResponse, HourlyForecast, UnitSelection } from '@/utils/contract';
+import { forecastRecordSchema } from '@/utils/contractSchemas';
+import {
+    Schema, array, custom, nullable, number, object, parseUpstream, string,
+} from '@/utils/schema';
+import { readUpstreamJson, upstreamFetch, upstreamStatusError } from '@/utils/upstream';
+import { describeWeatherCode, getWeatherCondition } from '@/utils/weatherCodes';
+import { convertTemperature, convertWindSpeed, parseUnitSelection } from '@/utils/units';
+import { LocationQuery, describeLocationQuery, getLocationCacheKey, parseLocationQuery, resolveLocation } from '@/utils/geocoding';
+import { errorJsonResponse } from '@/utils/httpCache';
+import { authenticateRequest } from '@/utils/apiKeys';
+import { getClientId } from '@/utils/rateLimit';
+import { annotateRequest, logger } from '@/utils/logger';
+import { instrumentRoute } from '@/utils/route';
+
+interface ForecastCacheEntry {
+    data: Omit<ForecastData, 'source'>;
+    timestamp: number;
+}
+
+// Forecast series change slowly compared to current conditions, so they get their own, longer TTL
+const FORECAST_CACHE_DURATION_MS = readNumberEnv('FORECAST_CACHE_DURATION_MS', 30 * 60 * 1000); // 30 minutes
+
+const FORECAST_DAYS = 7;
+const FORECAST_HOURS = 48;
+
+const DAILY_VARS = [
+    'temperature_2m_max',
+    'temperature_2m_min',
+    'precipitation_probability_max',
+    'weather_code',
+    'wind_speed_10m_max',
+];
+
+const HOURLY_VARS = [
+    'temperature_2m',
+    'precipitation_probability',
+    'weather_code',
+    'wind_speed_10m',
+];
+
+// Open-Meteo returns parallel arrays per variable; single values can be null where a model has no data
+const series = array(nullable(number));
+
+const openMeteoForecastSchema = object({
+    timezone: string,
+    daily: object({
+        time: array(string, 1),
+        temperature_2m_max: series,
+        temperature_2m_min: series,
+        precipitation_probability_max: series,
+        weather_code: series,
+        wind_speed_10m_max: series,
+    }),
+    hourly: object({
+        time: array(string, 1),
+        temperature_2m: series,
+        precipitation_probability: series,
+        weather_code: series,
+        wind_speed_10m: series,
+    }),
+});
+
+const forecastCacheEntrySchema: Schema<ForecastCacheEntry> = object({
+    data: forecastRecordSchema,
+    timestamp: custom<number>(isCacheTimestamp, 'a timestamp'),
+});
+
+function applyUnitsToForecast(data: ForecastData, units: UnitSelection): ForecastResponse {
+    return {
+        ...data,
+        daily: data.daily.map((day) => ({
+            ...day,
+            tempMax: convertTemperature(day.tempMax, units.temperature),
+            tempMin: convertTemperature(day.tempMin, units.temperature),
+            windMaxKmh: convertWindSpeed(day.windMaxKmh, 'kmh'),
+            windMax: convertWindSpeed(day.windMaxKmh, units.windSpeed),
+        })),
+        hourly: data.hourly.map((hour) => ({
+            ...hour,
+            temperature: convertTemperature(hour.temperature, units.temperature),
+            windKmh: convertWindSpeed(hour.windKmh, 'kmh'),
+            windSpeed: convertWindSpeed(hour.windKmh, units.windSpeed),
+        })),
+        units,
+    };
+}
+
+// Concurrent misses for the same cacheKey share one upstream round-trip (per server process)
+const forecastFlights = createSingleFlight<ForecastCacheEntry>();
+
+// --- Upstream Fetch (Geocoding + Forecast) and Cache Write ---
+async function fetchAndCacheForecast(query: LocationQuery, cacheKey: string, store: CacheStore): Promise<ForecastCacheEntry> {
+    const city = describeLocationQuery(query);
+
+    // Geocoding is shared with /api/weather through geocode_cache
+    const { latitude, longitude, name: geoCityName, country } = await resolveLocation(query, store);
+
+    const WEATHER_API_URL = 'https://api.open-meteo.com/v1/forecast';
+    const forecastFetchUrl = `${WEATHER_API_URL}?latitude=${latitude}&longitude=${longitude}&temperature_unit=celsius&wind_speed_unit=kmh&timezone=auto&daily=${DAILY_VARS.join(',')}&hourly=${HOURLY_VARS.join(',')}&forecast_days=${FORECAST_DAYS}&forecast_hours=${FORECAST_HOURS}`;
+
+    const forecastResponse = await upstreamFetch('forecast', forecastFetchUrl);
+
+    if (!forecastResponse.ok) {
+        const errorBody = await forecastResponse.json().catch(() => null);
+        const errorText = errorBody?.reason || 'Failed to retrieve forecast data from Open-Meteo.';
+        logger.error('Open-Meteo forecast request failed', { status: forecastResponse.status, reason: errorText });
+        throw upstreamStatusError('forecast', forecastResponse.status, 'Bad Gateway: Failed to fetch forecast data');
+    }
+
+    const forecastData = parseUpstream(openMeteoForecastSchema, await readUpstreamJson('forecast', forecastResponse), 'forecast');
+
+    // --- Transform: Open-Meteo returns parallel arrays, zip them into rows ---
+    const daily = forecastData.daily;
+    const hourly = forecastData.hourly;
+
+    const dailyRows: DailyForecast[] = daily.time.slice(0, FORECAST_DAYS).map((date, i) => ({
+        date,
+        tempMax: daily.temperature_2m_max[i] ?? 0,
+        tempMin: daily.temperature_2m_min[i] ?? 0,
+        precipitationProbability: Math.round(daily.precipitation_probability_max[i] ?? 0),
+        weatherCode: daily.weather_code[i] ?? -1,
+        condition: getWeatherCondition(daily.weather_code[i] ?? -1),
+        description: describeWeatherCode(daily.weather_code[i] ?? -1, query.language),
+        windMaxKmh: daily.wind_speed_10m_max[i] ?? 0,
+    }));
+
+    const hourlyRows: HourlyForecast[] = hourly.time.slice(0, FORECAST_HOURS).map((time, i) => ({
+        time,
+        temperature: hourly.temperature_2m[i] ?? 0,
+        precipitationProbability: Math.round(hourly.precipitation_probability[i] ?? 0),
+        weatherCode: hourly.weather_code[i] ?? -1,
+        condition: getWeatherCondition(hourly.weather_code[i] ?? -1),
+        description: describeWeatherCode(hourly.weather_code[i] ?? -1, query.language),
+        windKmh: hourly.wind_speed_10m[i] ?? 0,
+    }));
+
+    const dataToCache: ForecastCacheEntry = {
+        data: {
+            cityName: geoCityName,
+            country,
+            timezone: forecastData.timezone,
+            daily: dailyRows,
+            hourly: hourlyRows,
+        },
+        timestamp: Date.now(),
+    };
+
+    try {
+        await store.set('forecast_cache', cacheKey, dataToCache);
+    } catch (dbError) {
+        logger.error('Failed to write forecast cache', { city, store: store.name, error: dbError });
+    }
+
+    return dataToCache;
+}
+
+// The Route Handler accepts the same ?city= or ?lat=&lon=, unit and ?lang= parameters as /api/weather
+async function getForecast(request: NextRequest) {
+
+    const auth = await authenticateRequest(request);
+    if (!auth.ok) {
+        return auth.response;
+    }
+
+    let query: LocationQuery | null;
+    let units: UnitSelection;
+    try {
+        query = parseLocationQuery(request.nextUrl.searchParams);
+        units = parseUnitSelection(request.nextUrl.searchParams);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Bad Request';
+        return errorJsonResponse(message, 400);
+    }
+
+    if (!query) {
+        return errorJsonResponse('Bad Request: Missing city parameter (or lat and lon)', 400);
+    }
+
+    const city = describeLocationQuery(query);
+    const cacheKey = getLocationCacheKey(query);
+    annotateRequest({ cacheKey });
+    const store = getCacheStore();
+
+    return serveCached(request, {
+        store,
+        collection: 'forecast_cache',
+        entrySchema: forecastCacheEntrySchema,
+        cacheKey,
+        ttlMs: FORECAST_CACHE_DURATION_MS,
+        fetcher: () => fetchAndCacheForecast(query, cacheKey, store),
+        flights: forecastFlights,
+        render: (data, source) => applyUnitsToForecast({ ...data, source }, units),
+        clientId: getClientId(request, auth.key),
+        variant: `${units.temperature}:${units.windSpeed}`,
+        logContext: { city },
+    });
+}
+
+export const GET = instrumentRoute('/api/forecast', getForecast);
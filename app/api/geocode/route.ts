@@ -0,0 +1,99 @@
+import { NextRequest } from 'next/server';
+import { getCacheStore } from '@/utils/cacheStore';
+import type { GeocodeResponse } from '@/utils/contract';
+import { WeatherFetchError } from '@/utils/errors';
+import {
+    CityCandidates, CityQuery, GEOCODE_CACHE_TTL_MS, LocationQuery,
+    describeLocationQuery, fetchAndCacheCityCandidates, getCandidatesCacheKey, parseCityQuery, readCachedCityCandidates,
+} from '@/utils/geocoding';
+import { cachedJsonResponse, errorJsonResponse, weatherErrorResponse } from '@/utils/httpCache';
+import { authenticateRequest } from '@/utils/apiKeys';
+import { consumeRateLimit, getClientId, rateLimitedResponse } from '@/utils/rateLimit';
+import { recordCacheLookup } from '@/utils/metrics';
+import { annotateRequest, logger } from '@/utils/logger';
+import { instrumentRoute } from '@/utils/route';
+
+function toResponseBody(query: LocationQuery & CityQuery, result: CityCandidates): GeocodeResponse {
+    return {
+        query: describeLocationQuery(query),
+        count: result.candidates.length,
+        candidates: result.candidates,
+    };
+}
+
+/**
+ * GET /api/geocode?q=Springfield[&country=US][&admin1=Illinois][&lang=de]
+ * Returns up to 10 ranked candidates ({ rank, name, admin1, country, countryCode, latitude, longitude, population })
+ * so clients can disambiguate a city name before asking for its weather. No match is an empty list, not a 404.
+ */
+async function getGeocode(request: NextRequest) {
+
+    const auth = await authenticateRequest(request);
+    if (!auth.ok) {
+        return auth.response;
+    }
+
+    const q = request.nextUrl.searchParams.get('q');
+    if (!q || q.trim() === '') {
+        return errorJsonResponse('Bad Request: Missing q parameter', 400);
+    }
+
+    let query: LocationQuery & CityQuery;
+    try {
+        query = parseCityQuery(q, request.nextUrl.searchParams);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Bad Request';
+        return errorJsonResponse(message, 400);
+    }
+
+    const cacheKey = getCandidatesCacheKey(query);
+    annotateRequest({ cacheKey });
+    const store = getCacheStore();
+    const clientId = getClientId(request, auth.key);
+
+    // 1. Check Cache (read errors are logged inside and count as a miss)
+    const cached = await readCachedCityCandidates(query, store);
+    if (cached) {
+        const hitLimit = await consumeRateLimit(clientId, 'hit');
+        if (!hitLimit.allowed) {
+            return rateLimitedResponse(hitLimit, 'hit');
+        }
+
+        annotateRequest({ cacheOutcome: 'HIT' });
+        recordCacheLookup(store.name, 'geocode_cache', 'hit');
+        return cachedJsonResponse(request, toResponseBody(query, cached), {
+            cacheKey,
+            timestamp: cached.timestamp,
+            ttlMs: GEOCODE_CACHE_TTL_MS,
+            cacheStatus: 'HIT',
+        });
+    }
+    recordCacheLookup(store.name, 'geocode_cache', 'miss');
+
+    const missLimit = await consumeRateLimit(clientId, 'miss');
+    if (!missLimit.allowed) {
+        return rateLimitedResponse(missLimit, 'miss');
+    }
+
+    // 2. Fetch and Cache
+    annotateRequest({ cacheOutcome: 'MISS' });
+    try {
+        const fresh = await fetchAndCacheCityCandidates(query, store);
+        return cachedJsonResponse(request, toResponseBody(query, fresh), {
+            cacheKey,
+            timestamp: fresh.timestamp,
+            ttlMs: GEOCODE_CACHE_TTL_MS,
+            cacheStatus: 'MISS',
+        });
+    } catch (error) {
+        if (error instanceof WeatherFetchError) {
+            logger.warn('Geocode request failed', { query: describeLocationQuery(query), status: error.status, error });
+            return weatherErrorResponse(error);
+        }
+
+        logger.error('Unexpected error processing geocode request', { query: describeLocationQuery(query), error });
+        return errorJsonResponse('Internal Server Error', 500);
+    }
+}
+
+export const GET = instrumentRoute('/api/geocode', getGeocode);
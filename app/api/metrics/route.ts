@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateAdminRequest } from '@/utils/apiKeys';
+import { renderMetrics } from '@/utils/metrics';
+import { instrumentRoute } from '@/utils/route';
+
+// Counters are per server process, so this must never be statically cached
+export const dynamic = 'force-dynamic';
+
+// GET /api/metrics: Prometheus scrape target (admin key required; send it as a bearer token)
+async function getMetrics(request: NextRequest) {
+    const auth = await authenticateAdminRequest(request);
+    if (!auth.ok) {
+        return auth.response;
+    }
+
+    return new NextResponse(renderMetrics(), {
+        status: 200,
+        headers: {
+            'Content-Type': 'text/plain; version=0.0.4; charset=utf-8',
+            'Cache-Control': 'no-store',
+        },
+    });
+}
+
+export const GET = instrumentRoute('/api/metrics', getMetrics);
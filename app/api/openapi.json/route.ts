@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+import { buildOpenApiDocument } from '@/utils/openapi';
+import { instrumentRoute } from '@/utils/route';
+
+// GET /api/openapi.json: the API description, public so other teams can generate clients without a key
+async function getOpenApiDocument() {
+    return NextResponse.json(buildOpenApiDocument(), {
+        status: 200,
+        headers: {
+            'Cache-Control': 'public, max-age=3600',
+        },
+    });
+}
+
+export const GET = instrumentRoute('/api/openapi.json', getOpenApiDocument);
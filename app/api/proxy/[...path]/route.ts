@@ -0,0 +1,63 @@
+import { NextRequest } from 'next/server';
+import { getCacheStore } from '@/utils/cacheStore';
+import { createSingleFlight } from '@/utils/singleFlight';
+import { serveCached } from '@/utils/cachedFetch';
+import {
+    PROXY_CACHE_COLLECTION, ProxyCacheEntry, ProxyRequest, buildProxyRequest, fetchAndCacheProxied, findProxyRoute,
+    proxyCacheEntrySchema,
+} from '@/utils/proxyRoutes';
+import { errorJsonResponse } from '@/utils/httpCache';
+import { authenticateRequest } from '@/utils/apiKeys';
+import { getClientId } from '@/utils/rateLimit';
+import { annotateRequest } from '@/utils/logger';
+import { instrumentRoute } from '@/utils/route';
+
+// Concurrent misses for the same cacheKey share one upstream round-trip (per server process)
+const proxyFlights = createSingleFlight<ProxyCacheEntry>();
+
+interface RouteParams {
+    params: Promise<{ path: string[] }>;
+}
+
+// GET /api/proxy/{path}?{cacheKeyParams}: serves any route declared in proxyRoutes.config.ts
+async function getProxied(request: NextRequest, { params }: RouteParams) {
+
+    const auth = await authenticateRequest(request);
+    if (!auth.ok) {
+        return auth.response;
+    }
+
+    const { path } = await params;
+    const route = findProxyRoute(path.join('/'));
+    if (!route) {
+        return errorJsonResponse(`Not Found: No proxied route "${path.join('/')}"`, 404);
+    }
+
+    let proxyRequest: ProxyRequest;
+    try {
+        proxyRequest = buildProxyRequest(route, request.nextUrl.searchParams);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Bad Request';
+        return errorJsonResponse(message, 400);
+    }
+
+    const { cacheKey } = proxyRequest;
+    const store = getCacheStore();
+    annotateRequest({ cacheKey });
+
+    return serveCached(request, {
+        store,
+        collection: PROXY_CACHE_COLLECTION,
+        entrySchema: proxyCacheEntrySchema,
+        cacheKey,
+        ttlMs: route.ttlSeconds * 1000,
+        fetcher: () => fetchAndCacheProxied(route, proxyRequest, store),
+        flights: proxyFlights,
+        // Proxied bodies are returned as cached; `source` only shows in X-Cache
+        render: (data) => data,
+        clientId: getClientId(request, auth.key),
+        logContext: { proxyRoute: route.path },
+    });
+}
+
+export const GET = instrumentRoute('/api/proxy/[...path]', getProxied);
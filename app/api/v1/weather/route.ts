@@ -0,0 +1,6 @@
+import { getWeather } from '@/utils/weatherHandler';
+import { instrumentRoute } from '@/utils/route';
+
+export const revalidate = 300;
+
+export const GET = instrumentRoute('/api/v1/weather', getWeather);
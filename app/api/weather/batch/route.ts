@@ -0,0 +1,211 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { getCacheStore } from '@/utils/cacheStore';
+import { canServeStaleAfter } from '@/utils/cachedFetch';
+import { readNumberEnv } from '@/utils/env';
+import type { BatchRequestItem, BatchResponse, BatchResultItem, UnitSelection } from '@/utils/contract';
+import { WeatherFetchError } from '@/utils/errors';
+import { LocationQuery, describeLocationQuery, getLocationCacheKey, parseLocationQuery } from '@/utils/geocoding';
+import { WeatherLanguage, parseLanguage } from '@/utils/language';
+import {
+    CACHE_DURATION_MS, CacheEntry, STALE_IF_ERROR_MS, STALE_WHILE_REVALIDATE_MS, WeatherBatchItem,
+    fetchAndCacheWeatherBatch, getEntryAgeMs, readWeatherCacheMany,
+} from '@/utils/weather';
+import { applyUnitsToWeather, parseUnitSelection } from '@/utils/units';
+import { errorJsonResponse } from '@/utils/httpCache';
+import { authenticateRequest } from '@/utils/apiKeys';
+import { consumeRateLimit, getClientId, rateLimitedResponse } from '@/utils/rateLimit';
+import { recordCacheLookup } from '@/utils/metrics';
+import { flushRequestCounts, isRequestCountFlushDue, trackRequest } from '@/utils/popularity';
+import { logger } from '@/utils/logger';
+import { instrumentRoute } from '@/utils/route';
+
+// Upper bound on items per request, so one call can't fan out into unbounded upstream work
+const BATCH_MAX_ITEMS = readNumberEnv('BATCH_MAX_ITEMS', 50);
+
+// Reuses the GET parameter parser so batch items follow exactly the same rules as ?city= / ?lat=&lon=
+function parseBatchItem(item: BatchRequestItem, language: WeatherLanguage): LocationQuery | null {
+    const params = new URLSearchParams({ lang: language });
+
+    if (typeof item === 'string') {
+        params.set('city', item);
+    } else if (item && typeof item === 'object') {
+        if (typeof item.city === 'string') params.set('city', item.city);
+        if (typeof item.country === 'string') params.set('country', item.country);
+        if (typeof item.admin1 === 'string') params.set('admin1', item.admin1);
+        if (item.lat !== undefined) params.set('lat', String(item.lat));
+        if (item.lon !== undefined) params.set('lon', String(item.lon));
+    }
+
+    return parseLocationQuery(params);
+}
+
+function toErrorResult(index: number, query: BatchRequestItem, error: unknown): BatchResultItem {
+    if (error instanceof WeatherFetchError) {
+        return { index, query, status: error.status, error: error.message, code: error.code };
+    }
+    logger.error('Unexpected error processing batch item', { index, error });
+    return { index, query, status: 500, error: 'Internal Server Error', code: 'internal' };
+}
+
+/**
+ * POST /api/weather/batch
+ * Body: { "items": ["London", { "city": "Springfield", "country": "US", "admin1": "Illinois" }, { "lat": 48.85, "lon": 2.35 }] }
+ * Returns { "results": [...] } in request order, each with its own status and either
+ * `data` (carrying its own `source`) or `error`.
+ * Units and language are chosen for the whole batch with the same query parameters as GET (?units=imperial, ?lang=de etc.).
+ * Every item counts as one request against the API key's daily quota.
+ */
+async function postWeatherBatch(request: NextRequest) {
+
+    let units: UnitSelection;
+    let language: WeatherLanguage;
+    try {
+        units = parseUnitSelection(request.nextUrl.searchParams);
+        language = parseLanguage(request.nextUrl.searchParams);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Bad Request';
+        return errorJsonResponse(message, 400);
+    }
+
+    let items: BatchRequestItem[];
+    try {
+        const body = await request.json();
+        items = body?.items;
+    } catch {
+        return errorJsonResponse('Bad Request: Body must be valid JSON', 400);
+    }
+
+    if (!Array.isArray(items) || items.length === 0) {
+        return errorJsonResponse('Bad Request: Body must contain a non-empty items array', 400);
+    }
+
+    if (items.length > BATCH_MAX_ITEMS) {
+        return errorJsonResponse(`Bad Request: At most ${BATCH_MAX_ITEMS} items per batch`, 400);
+    }
+
+    const auth = await authenticateRequest(request, items.length);
+    if (!auth.ok) {
+        return auth.response;
+    }
+
+    const results: BatchResultItem[] = new Array(items.length);
+    const pending: { index: number; item: BatchRequestItem; batchItem: WeatherBatchItem }[] = [];
+
+    // 1. Parse every item; invalid ones get their own 400 without failing the batch
+    items.forEach((item, index) => {
+        try {
+            const query = parseBatchItem(item, language);
+            if (!query) {
+                results[index] = { index, query: item, status: 400, error: 'Bad Request: Item needs a city or lat and lon', code: 'bad-request' };
+                return;
+            }
+            pending.push({ index, item, batchItem: { query, cacheKey: getLocationCacheKey(query) } });
+        } catch (error) {
+            results[index] = toErrorResult(index, item, error);
+        }
+    });
+
+    const store = getCacheStore();
+    const currentTime = Date.now();
+
+    pending.forEach(({ batchItem }) => trackRequest(batchItem.cacheKey, batchItem.query));
+    if (isRequestCountFlushDue()) {
+        after(() => flushRequestCounts());
+    }
+    const uniqueKeys = Array.from(new Set(pending.map((p) => p.batchItem.cacheKey)));
+
+    // 2. One batched cache read for every requested key
+    let cachedEntries = new Map<string, CacheEntry>();
+    let cacheReadFailed = false;
+    try {
+        cachedEntries = await readWeatherCacheMany(store, uniqueKeys);
+    } catch (dbError) {
+        logger.error('Failed to batch read weather cache', { keys: uniqueKeys.length, store: store.name, error: dbError });
+        cacheReadFailed = true;
+    }
+
+    const missedItems: typeof pending = [];
+    const toRevalidate: WeatherBatchItem[] = [];
+
+    for (const entry of pending) {
+        const { index, item, batchItem } = entry;
+        const cachedEntry = cachedEntries.get(batchItem.cacheKey);
+        const entryAgeMs = cachedEntry ? getEntryAgeMs(cachedEntry, currentTime) : Infinity;
+
+        if (cachedEntry && entryAgeMs < CACHE_DURATION_MS) {
+            results[index] = { index, query: item, status: 200, data: applyUnitsToWeather({ ...cachedEntry.data, source: 'cache' }, units) };
+        } else if (cachedEntry && entryAgeMs < CACHE_DURATION_MS + STALE_WHILE_REVALIDATE_MS) {
+            results[index] = { index, query: item, status: 200, data: applyUnitsToWeather({ ...cachedEntry.data, source: 'stale' }, units) };
+            toRevalidate.push(batchItem);
+        } else {
+            missedItems.push(entry);
+        }
+    }
+
+    logger.info('Batch cache lookup', {
+        items: pending.length,
+        cached: pending.length - missedItems.length,
+        toFetch: missedItems.length,
+        store: store.name,
+    });
+    recordCacheLookup(store.name, 'weather_cache', 'hit', pending.length - missedItems.length - toRevalidate.length);
+    recordCacheLookup(store.name, 'weather_cache', 'stale', toRevalidate.length);
+    recordCacheLookup(store.name, 'weather_cache', cacheReadFailed ? 'error' : 'miss', missedItems.length);
+
+    // Rate limits: cached items draw from the hit bucket (all or nothing), distinct misses from the miss bucket
+    const clientId = getClientId(request, auth.key);
+    const hitLimit = await consumeRateLimit(clientId, 'hit', pending.length - missedItems.length);
+    if (!hitLimit.allowed) {
+        return rateLimitedResponse(hitLimit, 'hit');
+    }
+
+    const missCost = new Set(missedItems.map((m) => m.batchItem.cacheKey)).size;
+    const missLimit = await consumeRateLimit(clientId, 'miss', missCost);
+    if (!missLimit.allowed) {
+        // Cached items are still answered; only the upstream lookups are refused
+        for (const { index, item } of missedItems) {
+            results[index] = { index, query: item, status: 429, error: 'Too Many Requests: Upstream lookup limit reached', code: 'rate-limited' };
+        }
+        missedItems.length = 0;
+    }
+
+    // 3. Fetch only the misses, in one multi-location Open-Meteo call
+    if (missedItems.length > 0) {
+        const outcomes = await fetchAndCacheWeatherBatch(missedItems.map((m) => m.batchItem), store);
+
+        for (const { index, item, batchItem } of missedItems) {
+            const outcome = outcomes.get(batchItem.cacheKey);
+
+            if (outcome && !(outcome instanceof Error)) {
+                results[index] = { index, query: item, status: 200, data: applyUnitsToWeather(outcome, units) };
+                continue;
+            }
+
+            // Stale-if-error, same rules as GET /api/weather
+            const cachedEntry = cachedEntries.get(batchItem.cacheKey);
+            if (cachedEntry && canServeStaleAfter(outcome) && getEntryAgeMs(cachedEntry, currentTime) < CACHE_DURATION_MS + STALE_IF_ERROR_MS) {
+                logger.warn('Upstream failed, serving stale entry', { city: describeLocationQuery(batchItem.query), cacheKey: batchItem.cacheKey, error: outcome });
+                results[index] = { index, query: item, status: 200, data: applyUnitsToWeather({ ...cachedEntry.data, source: 'stale' }, units) };
+                continue;
+            }
+
+            results[index] = toErrorResult(index, item, outcome ?? new Error('No result for item'));
+        }
+    }
+
+    // 4. Refresh stale hits after the response is sent
+    if (toRevalidate.length > 0) {
+        after(async () => {
+            const outcomes = await fetchAndCacheWeatherBatch(toRevalidate, store);
+            outcomes.forEach((outcome, cacheKey) => {
+                if (outcome instanceof Error) {
+                    logger.error('Background refresh failed', { cacheKey, error: outcome });
+                }
+            });
+        });
+    }
+
+    return NextResponse.json<BatchResponse>({ results }, { status: 200 });
+}
+
+export const POST = instrumentRoute('/api/weather/batch', postWeatherBatch);
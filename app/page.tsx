@@ -1,36 +1,82 @@
 'use client';
 
 // ### START SECTION: IMPORTS & INTERFACE ###
-import React, { useState, useCallback, useMemo } from 'react';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
 import Image from 'next/image';
 import { 
     Search, MapPin, Wind, Loader, Cloud, Zap, Clock, 
-    Thermometer, Sun, Moon, Droplet, List, RotateCcw, Home
+    Thermometer, Sun, Moon, Droplet, List, RotateCcw, Home, CalendarDays, Star
 } from 'lucide-react';
+import {
+    SEARCH_HISTORY_LIMIT, clearSearchHistory, saveSearch, subscribeToSearchHistory, updateSearches,
+} from '@/utils/searchHistory';
+import { FavoriteCity, addFavorite, removeFavorite, subscribeToFavorites } from '@/utils/favorites';
+import { getCityDocumentId } from '@/utils/firebase';
+import type {
+    BatchResponse, ErrorBody, ForecastResponse, GeocodeCandidate, GeocodeResponse, UnitSelection, WeatherCondition,
+    WeatherResponse,
+} from '@/utils/contract';
 
-// Environment variable containing the API token (used for authentication)
+// Environment variable containing the API token (sent as X-API-Key, verified by the API routes)
 const CLIENT_API_TOKEN = process.env.NEXT_PUBLIC_CLIENT_TOKEN;
 
-interface WeatherData {
-  cityName: string;
-  country: string;
-  temperature: number; 
-  description: string; 
-  windKmh: number;
-  lastUpdated: string; 
-  source: 'cache' | 'api';
-  error?: string;
-  
-  // Detailed fields
-  apparentTemperature: number;
-  windGusts: number;
-  cloudCover: number;
-  isDay: number; // 1 for day, 0 for night
-  humidity: number;
-  tempMax: number;
-  tempMin: number;
+type UnitSystem = 'metric' | 'imperial';
+
+// Search history and favorites are stored on the client, so entries saved by older versions can lack
+// fields the API added since; everything read from them treats those as optional
+type SavedWeather = Omit<WeatherResponse, 'weatherCode' | 'condition' | 'provider' | 'windSpeed' | 'units'>
+  & Partial<Pick<WeatherResponse, 'weatherCode' | 'condition' | 'provider' | 'windSpeed' | 'units'>>;
+
+// Narrows a city name to one place (?country= and ?admin1= on the weather routes)
+interface LocationFilters {
+  country?: string;
+  admin1?: string;
 }
 // --- HELPER FUNCTIONS ---
+const PROVIDER_LABELS: Record<NonNullable<SavedWeather['provider']>, string> = {
+    'open-meteo': 'Open-Meteo',
+    'met-norway': 'MET Norway',
+};
+
+// A known place (history entry, favorite, weather result) is re-fetched with its region so
+// e.g. Springfield, Illinois doesn't turn into whichever Springfield ranks first
+const getLocationFilters = (place: { countryCode?: string; admin1?: string }): LocationFilters => ({
+    ...(place.countryCode ? { country: place.countryCode } : {}),
+    ...(place.admin1 ? { admin1: place.admin1 } : {}),
+});
+
+const buildLocationParams = (searchCity: string, filters: LocationFilters): string => {
+    const params = new URLSearchParams({ city: searchCity.trim() });
+    if (filters.country) params.set('country', filters.country);
+    if (filters.admin1) params.set('admin1', filters.admin1);
+    return params.toString();
+};
+
+// A search is ambiguous when another candidate has the same name and the top match isn't
+// clearly the better-known place (at least this many times the population)
+const AMBIGUITY_POPULATION_RATIO = 10;
+
+const isAmbiguousSearch = (candidates: GeocodeCandidate[]): boolean => {
+    const [top, ...rest] = candidates;
+    const runnerUp = rest.find(c => top && c.name.toLowerCase() === top.name.toLowerCase());
+    if (!top || !runnerUp) return false;
+    return !top.population || top.population < AMBIGUITY_POPULATION_RATIO * (runnerUp.population ?? 0);
+};
+
+const formatPopulation = (population: number | null) =>
+    population ? `Pop. ${new Intl.NumberFormat(undefined, { notation: 'compact' }).format(population)}` : null;
+
+// Responses without `units` (older cache-era clients) are metric
+const temperatureSymbol = (units?: UnitSelection) => units?.temperature === 'fahrenheit' ? '°F' : '°C';
+
+const WIND_SPEED_LABELS: Record<UnitSelection['windSpeed'], string> = {
+    kmh: 'km/h',
+    mph: 'mph',
+    ms: 'm/s',
+    kn: 'kn',
+};
+const windSpeedSymbol = (units?: UnitSelection) => WIND_SPEED_LABELS[units?.windSpeed ?? 'kmh'];
+
 const formattedLastUpdated = (lastUpdated: string) => {
     return new Date(lastUpdated).toLocaleTimeString('en-US', { 
         hour: '2-digit', 
@@ -39,49 +85,92 @@ const formattedLastUpdated = (lastUpdated: string) => {
     });
 };
 
-const getWeatherIcon = (description: string, isDay: number) => {
-    const lowerDesc = description.toLowerCase();
+// Icons and backgrounds are picked from the API's `condition`, never from the (localized) description
+type ConditionGroup = 'clear' | 'cloudy' | 'rain' | 'storm' | 'snow' | 'other';
+
+const CONDITION_GROUPS: Record<WeatherCondition, ConditionGroup> = {
+    'clear': 'clear',
+    'mainly-clear': 'clear',
+    'partly-cloudy': 'cloudy',
+    'overcast': 'cloudy',
+    'fog': 'cloudy',
+    'drizzle': 'rain',
+    'freezing-drizzle': 'rain',
+    'rain': 'rain',
+    'freezing-rain': 'rain',
+    'rain-showers': 'rain',
+    'snow': 'snow',
+    'snow-grains': 'snow',
+    'snow-showers': 'snow',
+    'thunderstorm': 'storm',
+    'thunderstorm-hail': 'storm',
+    'unknown': 'other',
+};
+
+const getConditionGroup = (condition?: WeatherCondition): ConditionGroup => CONDITION_GROUPS[condition ?? 'unknown'];
+
+const getWeatherIcon = (condition: WeatherCondition | undefined, isDay: number) => {
+    const group = getConditionGroup(condition);
     
-    if (lowerDesc.includes('clear')) return isDay === 1 
+    if (group === 'clear') return isDay === 1 
       ? <Sun className="w-16 h-16 text-yellow-400 drop-shadow-lg" /> 
       : <Moon className="w-16 h-16 text-indigo-300 drop-shadow-lg" />;
       
-    if (lowerDesc.includes('rain') || lowerDesc.includes('drizzle')) return <Droplet className="w-16 h-16 text-blue-400 drop-shadow-lg" />;
-    if (lowerDesc.includes('snow') || lowerDesc.includes('hail')) return <Cloud className="w-16 h-16 text-gray-300 drop-shadow-lg" />;
-    if (lowerDesc.includes('thunderstorm')) return <Zap className="w-16 h-16 text-yellow-500 drop-shadow-lg" />;
-    if (lowerDesc.includes('cloud') || lowerDesc.includes('overcast')) return <Cloud className="w-16 h-16 text-gray-400 drop-shadow-lg" />;
+    if (group === 'rain') return <Droplet className="w-16 h-16 text-blue-400 drop-shadow-lg" />;
+    if (group === 'snow') return <Cloud className="w-16 h-16 text-gray-300 drop-shadow-lg" />;
+    if (group === 'storm') return <Zap className="w-16 h-16 text-yellow-500 drop-shadow-lg" />;
     
     return <Cloud className="w-16 h-16 text-gray-400 drop-shadow-lg" />;
 };
 
+// Smaller variant used by the forecast strip (hourly and daily cells)
+const getCompactWeatherIcon = (condition?: WeatherCondition) => {
+    const group = getConditionGroup(condition);
+
+    if (group === 'clear') return <Sun className="w-6 h-6 text-yellow-500" />;
+    if (group === 'rain') return <Droplet className="w-6 h-6 text-blue-500" />;
+    if (group === 'storm') return <Zap className="w-6 h-6 text-yellow-600" />;
+
+    return <Cloud className="w-6 h-6 text-gray-500" />;
+};
+
+const formattedForecastDay = (date: string) => {
+    // Dates come as YYYY-MM-DD in the city's timezone; parse at noon to avoid shifting a day
+    return new Date(`${date}T12:00:00`).toLocaleDateString('en-US', { weekday: 'short' });
+};
+
+const formattedForecastHour = (time: string) => {
+    return new Date(time).toLocaleTimeString('en-US', { hour: 'numeric', hour12: true });
+};
+
 
 // --- Dynamic Background Weather Icon ---
 interface BackgroundIconProps {
-    description: string;
+    condition?: WeatherCondition;
     isDay: number;
 }
 
-const BackgroundWeatherIcon: React.FC<BackgroundIconProps> = ({ description, isDay }) => {
-    const lowerDesc = description.toLowerCase();
+const BackgroundWeatherIcon: React.FC<BackgroundIconProps> = ({ condition, isDay }) => {
+    const group = getConditionGroup(condition);
     let IconComponent: React.ElementType | null = null;
     let iconColor = 'text-white'; // Default color
     let iconSize = 'w-20 h-20 md:w-32 md:h-32'; // Smaller size
     
     // Choose the appropriate Lucide icon and color based on weather
-    if (lowerDesc.includes('clear')) {
+    if (group === 'clear') {
         IconComponent = isDay === 1 ? Sun : Moon;
         iconColor = isDay === 1 ? 'text-yellow-300' : 'text-indigo-400';
-    } else if (lowerDesc.includes('cloud') || lowerDesc.includes('overcast') || lowerDesc.includes('cloudy')) { // Added 'cloudy' for default intro state
+    } else if (group === 'cloudy') {
         IconComponent = Cloud;
         iconColor = 'text-gray-400';
-    } else if (lowerDesc.includes('rain') || lowerDesc.includes('drizzle')) {
+    } else if (group === 'rain') {
         IconComponent = Droplet; 
         iconColor = 'text-blue-500';
-    } else if (lowerDesc.includes('thunderstorm') || lowerDesc.includes('storm')) {
+    } else if (group === 'storm') {
         IconComponent = Zap; 
         iconColor = 'text-yellow-500';
         iconSize = 'w-16 h-16 md:w-24 md:h-24'; // Make thunder slightly smaller
-    } else if (lowerDesc.includes('snow') || lowerDesc.includes('hail')) {
+    } else if (group === 'snow') {
         IconComponent = Cloud; 
         iconColor = 'text-white';
     }
@@ -128,8 +217,12 @@ interface SearchFormProps {
     handleSubmit: (e: React.FormEvent) => void;
     loading: boolean;
     isIntroMode?: boolean; 
+    candidates: GeocodeCandidate[] | null;
+    onPickCandidate: (candidate: GeocodeCandidate) => void;
+    onDismissCandidates: () => void;
 }
-const SearchForm: React.FC<SearchFormProps> = React.memo(({ city, setCity, handleSubmit, loading, isIntroMode }) => (
+const SearchForm: React.FC<SearchFormProps> = React.memo(({ city, setCity, handleSubmit, loading, isIntroMode, candidates, onPickCandidate, onDismissCandidates }) => (
+    <div className="w-full max-w-sm mx-auto">
     <form onSubmit={handleSubmit} className="flex space-x-2 w-full max-w-sm mx-auto">
         <input
             type="text"
@@ -151,9 +244,52 @@ const SearchForm: React.FC<SearchFormProps> = React.memo(({ city, setCity, handl
             {loading ? <Loader className="w-6 h-6 animate-spin" /> : <Search className="w-6 h-6" />}
         </button>
     </form>
+    {candidates && (
+        <CandidatePicker candidates={candidates} onPick={onPickCandidate} onDismiss={onDismissCandidates} />
+    )}
+    </div>
 ));
 SearchForm.displayName = 'SearchForm';
 
+// --- "Did you mean" Picker (shown under the search bar for ambiguous city names) ---
+interface CandidatePickerProps {
+    candidates: GeocodeCandidate[];
+    onPick: (candidate: GeocodeCandidate) => void;
+    onDismiss: () => void;
+}
+const CandidatePicker: React.FC<CandidatePickerProps> = React.memo(({ candidates, onPick, onDismiss }) => (
+    <div className="mt-3 bg-white/90 rounded-xl shadow-lg border border-blue-200 text-left text-gray-900 backdrop-blur-sm overflow-hidden">
+        <div className="flex justify-between items-center px-4 py-2 border-b border-gray-200">
+            <p className="text-sm font-semibold text-gray-700">Did you mean...</p>
+            <button onClick={onDismiss} className="text-xs text-gray-500 hover:text-gray-800" aria-label="Dismiss suggestions">
+                Cancel
+            </button>
+        </div>
+        <ul className="max-h-72 overflow-y-auto custom-scrollbar">
+            {candidates.map((candidate) => (
+                <li key={candidate.rank}>
+                    <button
+                        onClick={() => onPick(candidate)}
+                        className="w-full px-4 py-2 flex justify-between items-center hover:bg-blue-50 transition duration-150 text-left"
+                    >
+                        <span className="flex items-center min-w-0">
+                            <MapPin className="w-4 h-4 mr-2 flex-shrink-0 text-red-500" />
+                            <span className="truncate">
+                                <span className="font-semibold">{candidate.name}</span>
+                                <span className="text-gray-600">
+                                    {candidate.admin1 && `, ${candidate.admin1}`}{candidate.country && `, ${candidate.country}`}
+                                </span>
+                            </span>
+                        </span>
+                        <span className="ml-2 flex-shrink-0 text-xs text-gray-500">{formatPopulation(candidate.population)}</span>
+                    </button>
+                </li>
+            ))}
+        </ul>
+    </div>
+));
+CandidatePicker.displayName = 'CandidatePicker';
+
 
 // --- Header Component ---
 interface HeaderProps {
@@ -263,9 +399,9 @@ InstructionsPanel.displayName = 'InstructionsPanel';
 
 // --- History Log  ---
 interface HistoryLogProps {
-    searchedCities: WeatherData[];
-    weather: WeatherData | null;
-    fetchWeather: (city: string) => Promise<void>; 
+    searchedCities: SavedWeather[];
+    weather: SavedWeather | null;
+    fetchWeather: (city: string, filters?: LocationFilters) => Promise<void>; 
 }
 const HistoryLog: React.FC<HistoryLogProps> = React.memo(({ searchedCities, weather, fetchWeather }) => (
     <div className="bg-gray-800/80 text-white rounded-xl p-4 md:p-6 shadow-xl h-full flex flex-col border border-gray-700 backdrop-blur-sm">
@@ -281,19 +417,19 @@ const HistoryLog: React.FC<HistoryLogProps> = React.memo(({ searchedCities, weat
                     <div 
                         key={index} 
                         className={`p-3 rounded-lg cursor-pointer transition duration-150 border 
-                            ${weather?.cityName.toLowerCase() === data.cityName.toLowerCase() 
+                            ${weather && getCityDocumentId(weather) === getCityDocumentId(data) 
                                 ? 'bg-blue-600/70 border-blue-400 shadow-md ring-2 ring-blue-300'
                                 : 'bg-gray-700/70 hover:bg-gray-600/70 border-gray-600'
                             }`}
-                        onClick={() => fetchWeather(data.cityName)} 
+                        onClick={() => fetchWeather(data.cityName, getLocationFilters(data))} 
                     >
                         <div className="flex justify-between items-center">
                             <h3 className="text-md font-semibold">{data.cityName}</h3>
-                            <span className="text-sm font-bold">{data.temperature ?? 0}°C</span>
+                            <span className="text-sm font-bold">{data.temperature ?? 0}{temperatureSymbol(data.units)}</span>
                         </div>
                         <div className="flex justify-between items-center text-xs mt-1 text-gray-300">
                             <p className="flex items-center">
-                                {data.source === 'cache' ? 'CACHED' : 'LIVE'}
+                                {data.source === 'cache' ? 'CACHED' : data.source === 'stale' ? 'STALE' : 'LIVE'}
                             </p>
                             <p>{formattedLastUpdated(data.lastUpdated)}</p>
                         </div>
@@ -306,12 +442,72 @@ const HistoryLog: React.FC<HistoryLogProps> = React.memo(({ searchedCities, weat
 HistoryLog.displayName = 'HistoryLog';
 
 
+// --- Pinned Favorites (compact cards, refreshed together through the batch endpoint) ---
+interface FavoritesBarProps {
+    favorites: FavoriteCity[];
+    // Latest result per favorite, keyed by getCityDocumentId; missing while loading or if the lookup failed
+    favoriteWeather: Map<string, SavedWeather>;
+    loading: boolean;
+    fetchWeather: (city: string, filters?: LocationFilters) => Promise<void>;
+    onRemove: (favorite: FavoriteCity) => void;
+}
+const FavoritesBar: React.FC<FavoritesBarProps> = React.memo(({ favorites, favoriteWeather, loading, fetchWeather, onRemove }) => (
+    <div className="md:col-span-3 flex space-x-3 overflow-x-auto custom-scrollbar pb-1">
+        {favorites.map((favorite) => {
+            const data = favoriteWeather.get(getCityDocumentId(favorite));
+            return (
+                <div
+                    key={getCityDocumentId(favorite)}
+                    className="flex-shrink-0 w-44 p-3 rounded-lg cursor-pointer bg-white/70 border border-yellow-300 shadow-md hover:bg-white/90 transition duration-150 backdrop-blur-sm"
+                    onClick={() => fetchWeather(favorite.cityName, getLocationFilters(favorite))}
+                >
+                    <div className="flex justify-between items-center">
+                        <h3 className="text-sm font-semibold text-gray-900 truncate">{favorite.cityName}</h3>
+                        <button
+                            onClick={(e) => { e.stopPropagation(); onRemove(favorite); }}
+                            className="text-yellow-500 hover:text-yellow-700"
+                            aria-label={`Unpin ${favorite.cityName}`}
+                        >
+                            <Star className="w-4 h-4 fill-current" />
+                        </button>
+                    </div>
+                    {data ? (
+                        <>
+                            <div className="flex items-center justify-between mt-1">
+                                {getCompactWeatherIcon(data.condition)}
+                                <span className="text-2xl font-light text-blue-600">{data.temperature ?? 0}{temperatureSymbol(data.units)}</span>
+                            </div>
+                            <div className="flex justify-between items-center text-xs mt-1">
+                                <span className={`px-2 rounded-full font-bold
+                                    ${data.source === 'cache' ? 'bg-green-100 text-green-800'
+                                        : data.source === 'stale' ? 'bg-orange-100 text-orange-800'
+                                        : 'bg-yellow-100 text-yellow-800'}`}>
+                                    {data.source === 'cache' ? 'CACHED' : data.source === 'stale' ? 'STALE' : 'LIVE'}
+                                </span>
+                                <span className="text-gray-600">{formattedLastUpdated(data.lastUpdated)}</span>
+                            </div>
+                        </>
+                    ) : (
+                        <p className="text-xs text-gray-500 mt-2 flex items-center">
+                            {loading ? <><Loader className="w-3 h-3 mr-1 animate-spin" /> Loading...</> : 'Unavailable'}
+                        </p>
+                    )}
+                </div>
+            );
+        })}
+    </div>
+));
+FavoritesBar.displayName = 'FavoritesBar';
+
+
 // --- Current Weather Card (Detailed Display)  ---
 interface CurrentWeatherCardProps {
-    weather: WeatherData;
+    weather: SavedWeather;
     loading: boolean; 
+    isFavorite: boolean;
+    onToggleFavorite: () => void;
 }
-const CurrentWeatherCard: React.FC<CurrentWeatherCardProps> = React.memo(({ weather, loading }) => (
+const CurrentWeatherCard: React.FC<CurrentWeatherCardProps> = React.memo(({ weather, loading, isFavorite, onToggleFavorite }) => (
     <div className="bg-white/70 border-2 border-blue-400 p-6 rounded-xl shadow-2xl transition-all duration-300 w-full relative backdrop-blur-sm 
                     ring-4 ring-blue-300 ring-opacity-50 transform hover:scale-[1.005] animate-fade-in">
         
@@ -331,13 +527,16 @@ const CurrentWeatherCard: React.FC<CurrentWeatherCardProps> = React.memo(({ weat
             {/* Source Tag & Last Updated Time */}
             <div className="flex justify-between items-center mb-4">
                 <span className={`inline-block px-3 py-1 text-sm font-bold rounded-full 
-                    ${weather.source === 'cache' ? 'bg-green-100/80 text-green-800' : 'bg-yellow-100/80 text-yellow-800'}`
+                    ${weather.source === 'cache' ? 'bg-green-100/80 text-green-800' 
+                        : weather.source === 'stale' ? 'bg-orange-100/80 text-orange-800' 
+                        : 'bg-yellow-100/80 text-yellow-800'}`
                 }>
-                    {weather.source === 'cache' ? 'Cache Hit' : 'External Fetch'}
+                    {weather.source === 'cache' ? 'Cache Hit' : weather.source === 'stale' ? 'Stale Cache (Refreshing)' : 'External Fetch'}
                 </span>
                 <p className="flex items-center text-gray-700 text-xs">
                     <Clock className="w-3 h-3 mr-1" />
                     Updated: {formattedLastUpdated(weather.lastUpdated)}
+                    {weather.provider && ` · via ${PROVIDER_LABELS[weather.provider]}`}
                 </p>
             </div>
             
@@ -346,17 +545,25 @@ const CurrentWeatherCard: React.FC<CurrentWeatherCardProps> = React.memo(({ weat
                 <MapPin className="w-7 h-7 mr-2 text-red-500" /> 
                 {weather.cityName},
                 <span className="ml-1">
-                    {weather.country}
+                    {weather.admin1 && `${weather.admin1}, `}{weather.country}
                 </span>
+                <button
+                    onClick={onToggleFavorite}
+                    className="ml-3 text-yellow-500 hover:text-yellow-600 transition-colors"
+                    aria-label={isFavorite ? 'Remove from favorites' : 'Add to favorites'}
+                    title={isFavorite ? 'Remove from favorites' : 'Add to favorites'}
+                >
+                    <Star className={`w-7 h-7 ${isFavorite ? 'fill-current' : ''}`} />
+                </button>
             </h2>
 
             {/* Temperature & Icon */}
             <div className="flex justify-between items-center mb-4">
-                {getWeatherIcon(weather.description, weather.isDay)}
+                {getWeatherIcon(weather.condition, weather.isDay)}
 
                 <p className="text-7xl font-light text-blue-600">
                     {weather.temperature ?? 0}
-                    <span className="align-top text-5xl">°C</span>
+                    <span className="align-top text-5xl">{temperatureSymbol(weather.units)}</span>
                 </p>
             </div>
             
@@ -370,14 +577,14 @@ const CurrentWeatherCard: React.FC<CurrentWeatherCardProps> = React.memo(({ weat
                 
                 <p className="flex items-center text-gray-700 text-lg">
                     <Thermometer className="w-5 h-5 text-red-400 mr-3" />
-                    Feels Like: {weather.apparentTemperature ?? 0}°C <span className="ml-4 text-sm text-gray-500">
-                        (Max: {weather.tempMax ?? 0}°C / Min: {weather.tempMin ?? 0}°C)
+                    Feels Like: {weather.apparentTemperature ?? 0}{temperatureSymbol(weather.units)} <span className="ml-4 text-sm text-gray-500">
+                        (Max: {weather.tempMax ?? 0}{temperatureSymbol(weather.units)} / Min: {weather.tempMin ?? 0}{temperatureSymbol(weather.units)})
                     </span>
                 </p>
 
                 <p className="flex items-center text-gray-700 text-lg">
                     <Wind className="w-5 h-5 text-gray-500 mr-3" />
-                    Wind:{weather.windKmh ?? 0} km/h (Gusts: {weather.windGusts ?? 0} km/h)
+                    Wind: {weather.windSpeed ?? weather.windKmh ?? 0} {windSpeedSymbol(weather.units)} (Gusts: {weather.windGusts ?? 0} {windSpeedSymbol(weather.units)})
                 </p>
                 
                 <div className="grid grid-cols-2 gap-3 text-gray-700 text-lg pt-2 border-t border-gray-300">
@@ -406,20 +613,197 @@ const CurrentWeatherCard: React.FC<CurrentWeatherCardProps> = React.memo(({ weat
 CurrentWeatherCard.displayName = 'CurrentWeatherCard';
 
 
+// --- Forecast Strip (7-day daily + 48-hour hourly) ---
+interface ForecastStripProps {
+    forecast: ForecastResponse;
+}
+const ForecastStrip: React.FC<ForecastStripProps> = React.memo(({ forecast }) => (
+    <div className="mt-6 bg-white/70 border border-blue-300 p-4 rounded-xl shadow-xl backdrop-blur-sm animate-fade-in">
+        <div className="flex justify-between items-center mb-3">
+            <h3 className="text-lg font-bold text-gray-800 flex items-center">
+                <CalendarDays className="w-5 h-5 mr-2 text-blue-600" /> Forecast
+            </h3>
+            <span className="text-xs text-gray-600">
+                {forecast.source === 'cache' ? 'CACHED' : forecast.source === 'stale' ? 'STALE' : 'LIVE'}
+            </span>
+        </div>
+
+        {/* Hourly (every 3 hours over the next 48h to keep the strip readable) */}
+        <div className="flex space-x-3 overflow-x-auto pb-3 custom-scrollbar border-b border-gray-300">
+            {forecast.hourly.filter((_, index) => index % 3 === 0).map((hour) => (
+                <div key={hour.time} className="flex flex-col items-center min-w-[56px] text-gray-700 text-xs">
+                    <span>{formattedForecastHour(hour.time)}</span>
+                    {getCompactWeatherIcon(hour.condition)}
+                    <span className="font-bold text-sm">{hour.temperature}{temperatureSymbol(forecast.units)}</span>
+                    <span className="text-blue-600">{hour.precipitationProbability}%</span>
+                </div>
+            ))}
+        </div>
+
+        {/* Daily */}
+        <div className="grid grid-cols-7 gap-2 pt-3">
+            {forecast.daily.map((day) => (
+                <div key={day.date} className="flex flex-col items-center text-gray-700 text-xs" title={day.description}>
+                    <span className="font-semibold">{formattedForecastDay(day.date)}</span>
+                    {getCompactWeatherIcon(day.condition)}
+                    <span className="font-bold text-sm">{day.tempMax}°</span>
+                    <span className="text-gray-500">{day.tempMin}°</span>
+                    <span className="text-blue-600">{day.precipitationProbability}%</span>
+                    <span className="text-gray-500">{day.windMax} {windSpeedSymbol(forecast.units)}</span>
+                </div>
+            ))}
+        </div>
+    </div>
+));
+ForecastStrip.displayName = 'ForecastStrip';
+
+
+// --- Units Toggle (Metric / Imperial) ---
+interface UnitsToggleProps {
+    unitSystem: UnitSystem;
+    onChange: (unitSystem: UnitSystem) => void;
+    disabled: boolean;
+}
+const UnitsToggle: React.FC<UnitsToggleProps> = React.memo(({ unitSystem, onChange, disabled }) => (
+    <div className="flex rounded-md border border-gray-400 overflow-hidden text-sm font-semibold shadow-sm" role="group" aria-label="Units">
+        {(['metric', 'imperial'] as UnitSystem[]).map((option) => (
+            <button
+                key={option}
+                onClick={() => onChange(option)}
+                disabled={disabled}
+                aria-pressed={unitSystem === option}
+                className={`px-3 py-1 transition-colors ${unitSystem === option
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-white/50 text-gray-700 hover:text-blue-700'}`}
+            >
+                {option === 'metric' ? '°C, km/h' : '°F, mph'}
+            </button>
+        ))}
+    </div>
+));
+UnitsToggle.displayName = 'UnitsToggle';
+
+
+// Fetches several cities (each with its region, if known) in one POST /api/weather/batch call, served
+// from the cache where possible. Returns the successful results keyed by the requested place's getCityDocumentId
+// (so two cities with the same name stay apart); failed items are left out.
+const fetchWeatherBatch = async (
+    places: { cityName: string; countryCode?: string; admin1?: string }[],
+    units: UnitSystem,
+): Promise<Map<string, SavedWeather>> => {
+    const response = await fetch(`/api/weather/batch?units=${units}`, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'X-API-Key': CLIENT_API_TOKEN ?? '',
+        },
+        body: JSON.stringify({ items: places.map(place => ({ city: place.cityName, ...getLocationFilters(place) })) }),
+    });
+    const data: BatchResponse | ErrorBody = await response.json();
+
+    if (!response.ok || 'error' in data) {
+        throw new Error('error' in data ? data.error : `HTTP error! Status: ${response.status}`);
+    }
+
+    const results = new Map<string, SavedWeather>();
+    for (const result of data.results) {
+        if (result.status === 200 && result.data) {
+            results.set(getCityDocumentId(places[result.index]), result.data);
+        }
+    }
+    return results;
+};
+
+
 const WeatherPage = () => {
 
   // ### START SECTION: STATE MANAGEMENT ###
   const [city, setCity] = useState('');
-  const [weather, setWeather] = useState<WeatherData | null>(null); 
-  const [searchedCities, setSearchedCities] = useState<WeatherData[]>([]); 
+  const [weather, setWeather] = useState<SavedWeather | null>(null); 
+  const [forecast, setForecast] = useState<ForecastResponse | null>(null);
+  const [searchedCities, setSearchedCities] = useState<SavedWeather[]>([]); 
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [unitSystem, setUnitSystem] = useState<UnitSystem>('metric');
+  const [favorites, setFavorites] = useState<FavoriteCity[]>([]);
+  const [favoriteWeather, setFavoriteWeather] = useState<Map<string, SavedWeather>>(new Map());
+  const [favoritesLoading, setFavoritesLoading] = useState(false);
+  const [candidates, setCandidates] = useState<GeocodeCandidate[] | null>(null);
   // ### END SECTION: STATE MANAGEMENT ###
 
+  // Search history lives under the anonymous user's ID and is kept in sync across tabs and reloads.
+  // Without Firebase configuration the history is simply kept in memory for the session.
+  useEffect(() => {
+    let unsubscribe: (() => void) | undefined;
+    let cancelled = false;
+
+    subscribeToSearchHistory<SavedWeather>(
+      setSearchedCities,
+      (historyError) => console.error('Search history subscription failed:', historyError),
+    )
+      .then((stop) => {
+        if (cancelled) stop();
+        else unsubscribe = stop;
+      })
+      .catch((historyError) => console.error('Search history is not persisted:', historyError));
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  }, []);
+
+  // Favorites are stored the same way (and likewise kept in memory without Firebase)
+  useEffect(() => {
+    let unsubscribe: (() => void) | undefined;
+    let cancelled = false;
+
+    subscribeToFavorites(
+      setFavorites,
+      (favoritesError) => console.error('Favorites subscription failed:', favoritesError),
+    )
+      .then((stop) => {
+        if (cancelled) stop();
+        else unsubscribe = stop;
+      })
+      .catch((favoritesError) => console.error('Favorites are not persisted:', favoritesError));
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  }, []);
+
+  // The pinned cards refresh together (one batch call) on load, when the set of favorites
+  // changes and when the units change. Snapshots with the same places don't trigger a refetch.
+  const favoritePlaces = useMemo(() => JSON.stringify(favorites.map(
+    ({ cityName, countryCode, admin1 }) => ({ cityName, countryCode, admin1 }),
+  )), [favorites]);
+
+  useEffect(() => {
+    if (favoritePlaces === '[]' || !CLIENT_API_TOKEN) return;
+    let cancelled = false;
+
+    setFavoritesLoading(true);
+    fetchWeatherBatch(JSON.parse(favoritePlaces), unitSystem)
+      .then((results) => {
+        if (!cancelled) setFavoriteWeather(results);
+      })
+      .catch((favoritesError) => console.error('Failed to refresh favorites:', favoritesError))
+      .finally(() => {
+        if (!cancelled) setFavoritesLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [favoritePlaces, unitSystem]);
+
   // ### START SECTION: ASYNC DATA FETCHING LOGIC (STABLE) ###
-  const fetchWeather = useCallback(async (searchCity: string) => {
+  const fetchWeather = useCallback(async (searchCity: string, filters: LocationFilters = {}, selectedUnits: UnitSystem = unitSystem) => {
     setLoading(true);
     setError(null);
+    setCandidates(null);
 
     if (!searchCity || searchCity.trim() === '') {
       setError('Please enter a valid city name.');
@@ -433,31 +817,50 @@ const WeatherPage = () => {
         return;
     }
     
-    const url = `/api/weather?city=${encodeURIComponent(searchCity.trim())}`; 
+    const locationParams = buildLocationParams(searchCity, filters);
+    const url = `/api/v1/weather?${locationParams}&units=${selectedUnits}`; 
 
     try {
       const response = await fetch(url, {
         headers: {
           'Content-Type': 'application/json',
+          'X-API-Key': CLIENT_API_TOKEN,
         },
       });
 
-      const data = await response.json();
+      const data: WeatherResponse | ErrorBody = await response.json();
 
-      if (!response.ok || data.error) {
-        throw new Error(data.error || `HTTP error! Status: ${response.status}`);
+      if (!response.ok || 'error' in data) {
+        throw new Error('error' in data ? data.error : `HTTP error! Status: ${response.status}`);
       }
       
-      const newWeatherData: WeatherData = data;
+      const newWeatherData: SavedWeather = data;
       setWeather(newWeatherData);
+      setForecast(null);
+
+      // The forecast strip is secondary: a failure here shouldn't hide the current conditions
+      fetch(`/api/forecast?${locationParams}&units=${selectedUnits}`, {
+        headers: {
+          'X-API-Key': CLIENT_API_TOKEN,
+        },
+      })
+        .then(async (forecastResponse) => {
+          const forecastData: ForecastResponse | ErrorBody = await forecastResponse.json();
+          if (forecastResponse.ok && !('error' in forecastData)) {
+            setForecast(forecastData);
+          }
+        })
+        .catch((forecastError) => console.error('Failed to fetch forecast:', forecastError));
       
-      // Update Search History Log (Ensure uniqueness, most recent first)
+      // Update Search History Log (Ensure uniqueness, most recent first). The Firestore
+      // subscription echoes the saved entry back, so the local update just avoids a flicker.
       setSearchedCities(prevCities => {
         const filteredCities = prevCities.filter(
-          c => c.cityName.toLowerCase() !== newWeatherData.cityName.toLowerCase()
+          c => getCityDocumentId(c) !== getCityDocumentId(newWeatherData)
         );
-        return [newWeatherData, ...filteredCities];
+        return [newWeatherData, ...filteredCities].slice(0, SEARCH_HISTORY_LIMIT);
       });
+      saveSearch(newWeatherData).catch((historyError) => console.error('Failed to save search history:', historyError));
 
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to fetch weather data.';
@@ -465,12 +868,67 @@ const WeatherPage = () => {
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [unitSystem]);
+
+  // Units Toggle Handler: the server converts from its canonical cache, so switching units
+  // re-requests the current city and the history (one batch call) without extra upstream fetches
+  const handleUnitsChange = useCallback(async (nextUnits: UnitSystem) => {
+    if (nextUnits === unitSystem) return;
+    setUnitSystem(nextUnits);
+
+    if (weather) {
+      fetchWeather(weather.cityName, getLocationFilters(weather), nextUnits);
+    }
+
+    if (searchedCities.length === 0) return;
+
+    try {
+      const refreshed = await fetchWeatherBatch(searchedCities, nextUnits);
+      setSearchedCities(prevCities => prevCities.map(c => refreshed.get(getCityDocumentId(c)) ?? c));
+      updateSearches([...refreshed.values()])
+        .catch((historyError) => console.error('Failed to save search history:', historyError));
+
+    } catch (err) {
+      console.error('Failed to refresh history in the new units:', err);
+    }
+  }, [unitSystem, weather, searchedCities, fetchWeather]);
   
+  // Favorites are matched by place (name, country code and region), not just by name
+  const isFavorite = useCallback((place: SavedWeather) =>
+    favorites.some(f => getCityDocumentId(f) === getCityDocumentId(place)), [favorites]);
+
+  // Favorite Toggle Handlers: local state first, then Firestore (whose snapshot confirms the change)
+  const unpinFavorite = useCallback((place: FavoriteCity) => {
+    setFavorites(prev => prev.filter(f => getCityDocumentId(f) !== getCityDocumentId(place)));
+    removeFavorite(place).catch((favoritesError) => console.error('Failed to remove favorite:', favoritesError));
+  }, []);
+
+  const toggleFavorite = useCallback(() => {
+    if (!weather) return;
+
+    const favorite: FavoriteCity = {
+      cityName: weather.cityName,
+      country: weather.country,
+      countryCode: weather.countryCode,
+      admin1: weather.admin1,
+    };
+
+    if (isFavorite(weather)) {
+      unpinFavorite(favorite);
+      return;
+    }
+
+    setFavorites(prev => [...prev, favorite]);
+    setFavoriteWeather(prev => new Map(prev).set(getCityDocumentId(favorite), weather));
+    addFavorite(favorite).catch((favoritesError) => console.error('Failed to save favorite:', favoritesError));
+  }, [weather, isFavorite, unpinFavorite]);
+
   // App Reset Handler
   const resetApp = useCallback(() => {
     setCity('');
+    setCandidates(null);
     setWeather(null);
+    setForecast(null);
     setLoading(false);
     setError(null);
   }, []);
@@ -478,7 +936,9 @@ const WeatherPage = () => {
   // Clears the currently displayed weather card, but keeps the history and stays on the dashboard.
   const clearCurrentView = useCallback(() => {
     setWeather(null);
+    setForecast(null);
     setCity(''); // Clear the search bar too
+    setCandidates(null);
     setLoading(false);
     setError(null);
   }, []);
@@ -486,11 +946,13 @@ const WeatherPage = () => {
   // Full Reset Handler (Clear History AND Reset App)
   const clearHistoryAndResetApp = useCallback(() => {
     setSearchedCities([]);
+    clearSearchHistory().catch((historyError) => console.error('Failed to clear search history:', historyError));
     resetApp();
   }, [resetApp]);
   
-  // Form Submission Handler
-  const handleSubmit = useCallback((e: React.FormEvent) => {
+  // Form Submission Handler: ambiguous names (several places called Springfield, ...) open the
+  // "did you mean" picker first; otherwise, or if the lookup fails, the weather is fetched directly
+  const handleSubmit = useCallback(async (e: React.FormEvent) => {
     e.preventDefault();
 
     const trimmedCity = city.trim();
@@ -500,11 +962,44 @@ const WeatherPage = () => {
       return
     }
     setCity(trimmedCity); 
+    setCandidates(null);
+
+    if (CLIENT_API_TOKEN) {
+      setLoading(true);
+      try {
+        const response = await fetch(`/api/geocode?q=${encodeURIComponent(trimmedCity)}`, {
+          headers: {
+            'X-API-Key': CLIENT_API_TOKEN,
+          },
+        });
+        const data: GeocodeResponse | ErrorBody = await response.json();
+
+        if (response.ok && !('error' in data) && isAmbiguousSearch(data.candidates)) {
+          setCandidates(data.candidates);
+          setError(null);
+          setLoading(false);
+          return;
+        }
+      } catch (geocodeError) {
+        console.error('Failed to look up city candidates:', geocodeError);
+      }
+    }
+
     fetchWeather(trimmedCity);
   }, [city, fetchWeather]);
+
+  const pickCandidate = useCallback((candidate: GeocodeCandidate) => {
+    setCity(candidate.name);
+    fetchWeather(candidate.name, getLocationFilters({
+      countryCode: candidate.countryCode,
+      admin1: candidate.admin1 ?? undefined,
+    }));
+  }, [fetchWeather]);
+
+  const dismissCandidates = useCallback(() => setCandidates(null), []);
     
-  // If history is empty, the IntroView is shown
-  const isIntroMode = searchedCities.length === 0;
+  // If history and favorites are empty, the IntroView is shown
+  const isIntroMode = searchedCities.length === 0 && favorites.length === 0;
 
   // Props object for easier passing to sub-components
   const searchFormProps = useMemo(() => ({
@@ -512,12 +1007,15 @@ const WeatherPage = () => {
     setCity,
     handleSubmit,
     loading,
-    error 
-  }), [city, handleSubmit, loading, error]);
+    error,
+    candidates,
+    onPickCandidate: pickCandidate,
+    onDismissCandidates: dismissCandidates,
+  }), [city, handleSubmit, loading, error, candidates, pickCandidate, dismissCandidates]);
 
   // Dynamic Background Class Variables
   const isDaytime = weather?.isDay === 1;
-  const weatherDescription = weather?.description.toLowerCase() || '';
+  const weatherGroup = getConditionGroup(weather?.condition);
 
   const baseOuterClasses = 'min-h-screen flex flex-col font-sans transition-all duration-1000 relative overflow-hidden'; 
   
@@ -532,19 +1030,19 @@ const WeatherPage = () => {
       introPatternClass = 'intro-pattern-overlay isolate'; 
   } else if (weather) {
       // DASHBOARD MODE: Set background based on current weather data (dynamic)
-      if (weatherDescription.includes('clear')) {
+      if (weatherGroup === 'clear') {
           outerBgClass = isDaytime 
             ? 'bg-gradient-to-br from-blue-400 to-sky-600'
             : 'bg-gradient-to-br from-gray-900 via-indigo-900 to-black'; 
-      } else if (weatherDescription.includes('cloud') || weatherDescription.includes('overcast')) {
+      } else if (weatherGroup === 'cloudy') {
           outerBgClass = 'bg-gradient-to-br from-gray-500 to-slate-700'; 
-      } else if (weatherDescription.includes('rain') || weatherDescription.includes('drizzle')) {
+      } else if (weatherGroup === 'rain') {
           outerBgClass = 'bg-gradient-to-br from-blue-800 via-gray-900 to-blue-950'; 
           backgroundEffectClass = 'rain-effect'; 
-      } else if (weatherDescription.includes('thunderstorm') || weatherDescription.includes('storm')) {
+      } else if (weatherGroup === 'storm') {
           outerBgClass = 'bg-gradient-to-br from-black via-indigo-950 to-purple-950'; 
           backgroundEffectClass = 'rain-effect thunderstorm-effect'; 
-      } else if (weatherDescription.includes('snow') || weatherDescription.includes('hail')) {
+      } else if (weatherGroup === 'snow') {
           outerBgClass = 'bg-gradient-to-br from-white to-blue-200'; 
       } else {
           outerBgClass = 'bg-gradient-to-br from-blue-200 to-indigo-300'; 
@@ -561,15 +1059,15 @@ const WeatherPage = () => {
         <Header clearHistoryAndResetApp={clearHistoryAndResetApp} isIntroMode={isIntroMode} />
 
         {/* --- Background Weather Icon --- */}
-        {/* FIX: Render icons in Intro Mode using default 'cloudy' settings */}
+        {/* FIX: Render icons in Intro Mode using default 'overcast' settings */}
         {(weather && !isIntroMode) ? (
              <BackgroundWeatherIcon 
-                description={weather.description}
+                condition={weather.condition}
                 isDay={weather.isDay}
              />
         ) : (isIntroMode && (
              <BackgroundWeatherIcon 
-                description="cloudy" 
+                condition="overcast" 
                 isDay={1}            
              />
         ))}
@@ -595,6 +1093,17 @@ const WeatherPage = () => {
                 // DASHBOARD MODE
                 <div className="w-full max-w-6xl grid grid-cols-1 md:grid-cols-3 gap-6 z-10 py-8">
                     
+                    {/* Pinned Favorites */}
+                    {favorites.length > 0 && (
+                        <FavoritesBar
+                            favorites={favorites}
+                            favoriteWeather={favoriteWeather}
+                            loading={favoritesLoading}
+                            fetchWeather={fetchWeather}
+                            onRemove={unpinFavorite}
+                        />
+                    )}
+
                     {/* COLUMN 1 & 2: MAIN WEATHER CONTENT */}
                     <div className="md:col-span-2 space-y-6">
                         <div className="bg-white/70 rounded-xl shadow-2xl p-6 md:p-8 border border-blue-200 border-opacity-70 backdrop-blur-sm">
@@ -605,6 +1114,9 @@ const WeatherPage = () => {
                                     Weather Dashboard
                                 </h2>
                                 
+                                <div className="flex items-center space-x-2">
+                                <UnitsToggle unitSystem={unitSystem} onChange={handleUnitsChange} disabled={loading} />
+
                                 <button 
                                     onClick={clearCurrentView} // Clear current view button
                                     className="text-sm font-semibold text-gray-700 hover:text-blue-700 transition-colors px-3 py-1 rounded-md border border-gray-400 hover:border-blue-600 bg-white/50 flex items-center shadow-sm"
@@ -612,6 +1124,7 @@ const WeatherPage = () => {
                                 >
                                     <RotateCcw className="w-4 h-4 mr-1"/> Clear View
                                 </button>
+                                </div>
                             </div>
                             
                             <div className="mb-6">
@@ -632,7 +1145,11 @@ const WeatherPage = () => {
                                     <CurrentWeatherCard 
                                         weather={weather} 
                                         loading={loading} 
+                                        isFavorite={isFavorite(weather)}
+                                        onToggleFavorite={toggleFavorite}
                                     />
+
+                                    {forecast && <ForecastStrip forecast={forecast} />}
                                     
                                     <div className="mt-6 pt-4 border-t border-gray-300 p-3 bg-white/50 rounded-lg text-sm text-gray-700 backdrop-blur-sm shadow-inner">
                                         <p className="mb-2">
@@ -653,7 +1170,7 @@ const WeatherPage = () => {
                             )}
                             
                             {/* Instructions Panel */}
-                            {!weather && searchedCities.length > 0 && (
+                            {!weather && (
                                 <InstructionsPanel />
                             )}
                         </div>
@@ -0,0 +1,47 @@
+import type { ProxyRouteConfig } from '@/utils/proxyRoutes';
+import { latitudeParam, longitudeParam } from '@/utils/proxyParams';
+import { array, number, object, string } from '@/utils/schema';
+
+// --- Proxied Routes ---
+// Each entry is served at /api/proxy/{path} through the same cache, TTL, stale serving,
+// rate limiting and error handling as /api/weather. Placeholders like {lat} in `upstream`
+// are filled from the query string; only the params listed in `cacheKeyParams` are accepted,
+// after the matching parser in `params` (if any) has validated and normalised them.
+// A route with a transform should declare a `schema` for what the transform reads.
+
+// Infers each route's body type from its schema, so the transform is checked against it
+function defineProxyRoute<T>(route: ProxyRouteConfig<T>): ProxyRouteConfig<T> {
+    return route;
+}
+
+const openMeteoAirQualitySchema = object({
+    current: object({ time: string, pm10: number, pm2_5: number, european_aqi: number }),
+});
+
+const openMeteoElevationSchema = object({
+    elevation: array(number, 1),
+});
+
+const proxyRoutes: ProxyRouteConfig[] = [
+    defineProxyRoute({
+        path: 'air-quality',
+        upstream: 'https://air-quality-api.open-meteo.com/v1/air-quality?latitude={lat}&longitude={lon}&current=pm10,pm2_5,european_aqi',
+        cacheKeyParams: ['lat', 'lon'],
+        params: { lat: latitudeParam, lon: longitudeParam },
+        ttlSeconds: 15 * 60,
+        schema: openMeteoAirQualitySchema,
+        transform: ({ current }) => ({ pm10: current.pm10, pm25: current.pm2_5, europeanAqi: current.european_aqi, lastUpdated: current.time }),
+    }),
+    defineProxyRoute({
+        path: 'elevation',
+        upstream: 'https://api.open-meteo.com/v1/elevation?latitude={lat}&longitude={lon}',
+        cacheKeyParams: ['lat', 'lon'],
+        params: { lat: latitudeParam, lon: longitudeParam },
+        // Terrain doesn't change
+        ttlSeconds: 30 * 24 * 60 * 60,
+        schema: openMeteoElevationSchema,
+        transform: ({ elevation }) => ({ elevationMeters: elevation[0] }),
+    }),
+];
+
+export default proxyRoutes;
@@ -0,0 +1,38 @@
+// --- Cache Warmer (run from cron or any scheduler: `npm run warm-cache`) ---
+// Calls POST /api/admin/warm on a running server and prints its report.
+//   WARM_URL       Server base URL (default http://localhost:3000)
+//   ADMIN_API_KEY  An API key with the admin flag (see API_KEYS)
+//   WARM_TOP_N, WARM_BUDGET  Optional overrides of CACHE_WARMER_TOP_N / CACHE_WARMER_UPSTREAM_BUDGET
+// Exits with status 1 if the request fails or any refresh failed.
+
+const baseUrl = (process.env.WARM_URL || 'http://localhost:3000').replace(/\/$/, '');
+const apiKey = process.env.ADMIN_API_KEY;
+
+if (!apiKey) {
+    console.error('ADMIN_API_KEY is not set');
+    process.exit(1);
+}
+
+const url = new URL('/api/admin/warm', baseUrl);
+if (process.env.WARM_TOP_N) url.searchParams.set('topN', process.env.WARM_TOP_N);
+if (process.env.WARM_BUDGET) url.searchParams.set('budget', process.env.WARM_BUDGET);
+
+try {
+    const response = await fetch(url, { method: 'POST', headers: { 'X-API-Key': apiKey } });
+    const body = await response.json();
+
+    if (!response.ok) {
+        console.error(`Cache warming failed (${response.status}): ${body.error ?? 'Unknown error'}`);
+        process.exit(1);
+    }
+
+    console.log(`Considered ${body.considered} keys, used ${body.upstreamCallsUsed} of ${body.options.upstreamBudget} upstream calls in ${body.durationMs} ms`);
+    for (const item of body.refreshed) console.log(`  refreshed  ${item.city} (${item.requests} requests)`);
+    for (const item of body.failed) console.log(`  failed     ${item.city}: ${item.error}`);
+    for (const item of body.skipped) console.log(`  skipped    ${item.city} (${item.reason})`);
+
+    process.exit(body.failed.length > 0 ? 1 : 0);
+} catch (error) {
+    console.error(`Could not reach ${url.origin}:`, error instanceof Error ? error.message : error);
+    process.exit(1);
+}
@@ -0,0 +1,233 @@
+import { createHash } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { CacheStore, createCacheStore } from '@/utils/cacheStore';
+import { errorJsonResponse } from '@/utils/httpCache';
+import { logger } from '@/utils/logger';
+
+// --- API Key Authentication with Per-Key Daily Quotas ---
+
+/**
+ * A stored API key. Documents live in the 'api_keys' collection, keyed by the
+ * SHA-256 hash of the key so the raw key never has to be stored.
+ */
+export interface ApiKeyRecord {
+    name: string;
+    dailyQuota: number;
+    enabled: boolean;
+    admin?: boolean; // May call the /api/admin routes
+    public?: boolean; // Shipped to browsers (the page's key), so rate limited per client IP rather than per key
+}
+
+export interface AuthenticatedKey extends ApiKeyRecord {
+    id: string; // SHA-256 hash of the raw key
+}
+
+interface UsageEntry {
+    count: number;
+}
+
+export type AuthResult =
+    | { ok: true; key: AuthenticatedKey | null } // key is null when authentication is disabled
+    | { ok: false; response: NextResponse };
+
+export const API_KEY_HEADER = 'x-api-key';
+
+/**
+ * Hashes a raw API key into the document ID used by the 'api_keys' collection.
+ */
+export function hashApiKey(rawKey: string): string {
+    return createHash('sha256').update(rawKey).digest('hex');
+}
+
+// Keys declared in the environment: API_KEYS="web:key:dailyQuota:public,name2:key2:dailyQuota2:admin".
+// They are checked before the store, which makes the memory backend usable without any setup.
+function readEnvKeys(): Map<string, ApiKeyRecord> {
+    const keys = new Map<string, ApiKeyRecord>();
+    const raw = process.env.API_KEYS || '';
+
+    for (const entry of raw.split(',').map((e) => e.trim()).filter(Boolean)) {
+        const [name, key, quota, role] = entry.split(':');
+        if (!name || !key) {
+            logger.error('Ignoring malformed API_KEYS entry', { name: name || undefined });
+            continue;
+        }
+        const dailyQuota = Number(quota);
+        keys.set(hashApiKey(key), {
+            name,
+            dailyQuota: Number.isFinite(dailyQuota) && dailyQuota > 0 ? dailyQuota : Infinity,
+            enabled: true,
+            admin: role === 'admin',
+            public: role === 'public',
+        });
+    }
+
+    return keys;
+}
+
+const envKeys = readEnvKeys();
+
+let apiKeyStoreInstance: CacheStore | null = null;
+let usageStoreInstance: CacheStore | null = null;
+
+// API_KEY_STORE selects where key records live; defaults to CACHE_STORE. Records are read-only
+// to clients in firestore.rules, so Firestore is fine here.
+function getApiKeyStore(): CacheStore {
+    if (!apiKeyStoreInstance) {
+        apiKeyStoreInstance = createCacheStore(process.env.API_KEY_STORE || process.env.CACHE_STORE || 'firestore', 'API_KEY_STORE');
+    }
+    return apiKeyStoreInstance;
+}
+
+// API_KEY_USAGE_STORE selects where daily usage counters live: memory (default) or file. The routes
+// reach Firestore through the unauthenticated client SDK with the public web config, so anyone could
+// reset a counter kept there; it (like any unknown value) falls back to memory.
+function getUsageStore(): CacheStore {
+    if (!usageStoreInstance) {
+        const kind = (process.env.API_KEY_USAGE_STORE || 'memory').toLowerCase();
+        if (kind !== 'memory' && kind !== 'file') {
+            logger.error('API key usage must be kept in memory or file, falling back to memory', { setting: 'API_KEY_USAGE_STORE', kind });
+        }
+        usageStoreInstance = createCacheStore(kind === 'file' ? 'file' : 'memory', 'API_KEY_USAGE_STORE');
+    }
+    return usageStoreInstance;
+}
+
+function isAuthDisabled(): boolean {
+    return process.env.API_AUTH_DISABLED === 'true';
+}
+
+// Extracts the raw key from X-API-Key, or from "Authorization: Bearer <key>"
+function readRawKey(request: NextRequest): string | null {
+    const headerKey = request.headers.get(API_KEY_HEADER);
+    if (headerKey && headerKey.trim() !== '') {
+        return headerKey.trim();
+    }
+
+    const authorization = request.headers.get('authorization');
+    const match = authorization?.match(/^Bearer\s+(.+)$/i);
+    return match ? match[1].trim() : null;
+}
+
+async function lookupKey(keyId: string): Promise<ApiKeyRecord | null> {
+    const envKey = envKeys.get(keyId);
+    if (envKey) return envKey;
+
+    return getApiKeyStore().get<ApiKeyRecord>('api_keys', keyId);
+}
+
+// Quotas reset at midnight UTC
+function getUsageDay(now: Date): string {
+    return now.toISOString().slice(0, 10);
+}
+
+function secondsUntilUtcMidnight(now: Date): number {
+    const midnight = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+    return Math.ceil((midnight - now.getTime()) / 1000);
+}
+
+/**
+ * Verifies the request's API key and charges `cost` requests against its daily quota.
+ * Responds 401 when no key is sent, 403 for unknown or disabled keys, 429 once the quota is used up
+ * and 503 if the key store can't be reached.
+ * Note: usage is counted with a read-then-write, so concurrent requests may slightly overshoot a quota.
+ */
+export async function authenticateRequest(request: NextRequest, cost = 1): Promise<AuthResult> {
+    if (isAuthDisabled()) {
+        return { ok: true, key: null };
+    }
+
+    const rawKey = readRawKey(request);
+    if (!rawKey) {
+        return {
+            ok: false,
+            response: errorJsonResponse(
+                'Unauthorized: Missing API key',
+                401,
+                { headers: { 'WWW-Authenticate': 'Bearer' } },
+            ),
+        };
+    }
+
+    const keyId = hashApiKey(rawKey);
+    const now = new Date();
+    const usageKey = `${keyId}:${getUsageDay(now)}`;
+
+    try {
+        const record = await lookupKey(keyId);
+
+        if (!record || !record.enabled) {
+            return {
+                ok: false,
+                response: errorJsonResponse('Forbidden: Invalid or disabled API key', 403),
+            };
+        }
+
+        const store = getUsageStore();
+        const usage = await store.get<UsageEntry>('api_key_usage', usageKey);
+        const used = usage?.count ?? 0;
+
+        if (used + cost > record.dailyQuota) {
+            logger.info('Daily quota exceeded', { keyName: record.name, used, dailyQuota: record.dailyQuota });
+            return {
+                ok: false,
+                response: errorJsonResponse(
+                    'Too Many Requests: Daily quota exceeded for this API key',
+                    429,
+                    { headers: { 'Retry-After': String(secondsUntilUtcMidnight(now)) } },
+                ),
+            };
+        }
+
+        await store.set<UsageEntry>('api_key_usage', usageKey, { count: used + cost });
+
+        return { ok: true, key: { ...record, id: keyId } };
+
+    } catch (error) {
+        logger.error('Failed to verify API key', { error });
+        return {
+            ok: false,
+            response: errorJsonResponse('Service Unavailable: Could not verify API key', 503),
+        };
+    }
+}
+
+/**
+ * Verifies that the request carries an enabled admin key. Admin calls don't count against quotas,
+ * and API_AUTH_DISABLED does not apply: admin routes always require a key.
+ * Responds 401 when no key is sent, 403 for keys without admin rights and 503 if the key store can't be reached.
+ */
+export async function authenticateAdminRequest(request: NextRequest): Promise<AuthResult> {
+    const rawKey = readRawKey(request);
+    if (!rawKey) {
+        return {
+            ok: false,
+            response: errorJsonResponse(
+                'Unauthorized: Missing API key',
+                401,
+                { headers: { 'WWW-Authenticate': 'Bearer' } },
+            ),
+        };
+    }
+
+    const keyId = hashApiKey(rawKey);
+
+    try {
+        const record = await lookupKey(keyId);
+
+        if (!record || !record.enabled || !record.admin) {
+            return {
+                ok: false,
+                response: errorJsonResponse('Forbidden: Admin API key required', 403),
+            };
+        }
+
+        return { ok: true, key: { ...record, id: keyId } };
+
+    } catch (error) {
+        logger.error('Failed to verify admin API key', { error });
+        return {
+            ok: false,
+            response: errorJsonResponse('Service Unavailable: Could not verify API key', 503),
+        };
+    }
+}
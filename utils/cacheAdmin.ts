@@ -0,0 +1,133 @@
+import { CacheStore, getTimestampInMs } from '@/utils/cacheStore';
+import { CACHE_DURATION_MS, CacheEntry } from '@/utils/weather';
+import { PROXY_CACHE_COLLECTION } from '@/utils/proxyRoutes';
+import { CANDIDATES_KEY_PREFIX } from '@/utils/geocoding';
+import { logger } from '@/utils/logger';
+
+// --- Cache Administration (list, inspect, purge) ---
+
+// Collections that share a location cache key: purging a key clears it in all of them
+const LOCATION_CACHE_COLLECTIONS = ['weather_cache', 'forecast_cache', 'geocode_cache'];
+// Prefix purges and flushes also reach the config-driven proxy routes (keys like "air-quality|lat=..|lon=..")
+const PURGEABLE_COLLECTIONS = [...LOCATION_CACHE_COLLECTIONS, PROXY_CACHE_COLLECTION];
+
+export interface CacheEntrySummary {
+    key: string;
+    cityName: string;
+    country: string;
+    lastUpdated: string; // ISO time the entry was written
+    ageSeconds: number;
+    remainingTtlSeconds: number; // 0 once the entry has expired
+}
+
+export interface CacheEntryDetail extends CacheEntrySummary {
+    entry: CacheEntry;
+    related: Record<string, boolean>; // Whether forecast_cache / geocode_cache hold the same key
+}
+
+export interface PurgeResult {
+    deleted: Record<string, string[]>; // collection name -> deleted keys
+}
+
+// Forecast and geocoding documents are only checked for existence here
+type StoredEntry = Record<string, unknown>;
+
+function summarizeEntry(key: string, entry: CacheEntry, now: number): CacheEntrySummary {
+    const timestamp = getTimestampInMs(entry.timestamp);
+    const ageMs = Math.max(0, now - timestamp);
+    return {
+        key,
+        cityName: entry.data?.cityName ?? '',
+        country: entry.data?.country ?? '',
+        lastUpdated: new Date(timestamp).toISOString(),
+        ageSeconds: Math.floor(ageMs / 1000),
+        remainingTtlSeconds: Math.max(0, Math.floor((CACHE_DURATION_MS - ageMs) / 1000)),
+    };
+}
+
+/**
+ * Lists weather_cache entries (optionally only keys starting with `prefix`), oldest first.
+ */
+export async function listWeatherCacheEntries(store: CacheStore, prefix = ''): Promise<CacheEntrySummary[]> {
+    const entries = await store.list<CacheEntry>('weather_cache');
+    const now = Date.now();
+
+    return Array.from(entries)
+        .filter(([key]) => key.startsWith(prefix))
+        .map(([key, entry]) => summarizeEntry(key, entry, now))
+        .sort((a, b) => b.ageSeconds - a.ageSeconds);
+}
+
+/**
+ * Returns one weather_cache entry with its age and TTL, plus whether related
+ * forecast and geocoding entries exist under the same key.
+ */
+export async function getWeatherCacheEntry(store: CacheStore, key: string): Promise<CacheEntryDetail | null> {
+    const entry = await store.get<CacheEntry>('weather_cache', key);
+    if (!entry) return null;
+
+    const [forecast, geocode] = await Promise.all([
+        store.get<StoredEntry>('forecast_cache', key),
+        store.get<StoredEntry>('geocode_cache', key),
+    ]);
+
+    return {
+        ...summarizeEntry(key, entry, Date.now()),
+        entry,
+        related: { forecast_cache: forecast !== null, geocode_cache: geocode !== null },
+    };
+}
+
+// Deletes the keys matching `predicate` from every purgeable collection
+async function purgeMatching(store: CacheStore, predicate: (key: string) => boolean): Promise<PurgeResult> {
+    const deleted: Record<string, string[]> = {};
+
+    for (const collectionName of PURGEABLE_COLLECTIONS) {
+        const entries = await store.list<StoredEntry>(collectionName);
+        const keys = Array.from(entries.keys()).filter(predicate);
+        await store.deleteMany(collectionName, keys);
+        deleted[collectionName] = keys;
+    }
+
+    const total = Object.values(deleted).reduce((sum, keys) => sum + keys.length, 0);
+    logger.info('Cache entries purged', { store: store.name, total });
+    return { deleted };
+}
+
+/**
+ * Removes one location key from the weather, forecast and geocoding caches, including the
+ * geocoding candidate list stored under the same key.
+ */
+export async function purgeCacheKey(store: CacheStore, key: string): Promise<PurgeResult> {
+    const deleted: Record<string, string[]> = {};
+
+    for (const collectionName of LOCATION_CACHE_COLLECTIONS) {
+        const existing = await store.get<StoredEntry>(collectionName, key);
+        await store.deleteMany(collectionName, [key]);
+        deleted[collectionName] = existing ? [key] : [];
+    }
+
+    // /api/geocode's candidate list for the same city, so a purged city is geocoded afresh everywhere
+    const candidatesKey = `${CANDIDATES_KEY_PREFIX}${key}`;
+    const candidates = await store.get<StoredEntry>('geocode_cache', candidatesKey);
+    await store.deleteMany('geocode_cache', [candidatesKey]);
+    if (candidates) deleted.geocode_cache.push(candidatesKey);
+
+    logger.info('Cache key purged', { store: store.name, cacheKey: key });
+    return { deleted };
+}
+
+/**
+ * Removes every key starting with `prefix` from the weather, forecast, geocoding and proxy caches.
+ */
+export function purgeCachePrefix(store: CacheStore, prefix: string): Promise<PurgeResult> {
+    return purgeMatching(store, (key) => key.startsWith(prefix));
+}
+
+/**
+ * Empties the weather, forecast, geocoding and proxy caches. API keys, usage counters and
+ * rate limit buckets are left alone.
+ */
+export function flushCache(store: CacheStore): Promise<PurgeResult> {
+    return purgeMatching(store, () => true);
+}
@@ -0,0 +1,366 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { initializeApp, getApps, getApp, FirebaseApp } from 'firebase/app';
+import {
+    getFirestore, doc, getDoc, getDocs, setDoc, collection, query, where, documentId, writeBatch, Firestore, Timestamp,
+} from 'firebase/firestore';
+import { instrumentCacheStore } from '@/utils/metrics';
+import { logger } from '@/utils/logger';
+
+/**
+ * A minimal document store used by the server-side routes for caching.
+ * Documents are addressed by a collection name (e.g., 'weather_cache') and a key.
+ * Backends are selected with the CACHE_STORE environment variable:
+ * 'firestore' (default), 'memory' or 'file'.
+ */
+export interface CacheStore {
+    readonly name: string;
+    get<T>(collectionName: string, key: string): Promise<T | null>;
+    /** Reads several documents at once; keys with no document are absent from the result. */
+    getMany<T>(collectionName: string, keys: string[]): Promise<Map<string, T>>;
+    set<T>(collectionName: string, key: string, value: T): Promise<void>;
+    /** Reads every document in a collection (admin use; this is a full scan). */
+    list<T>(collectionName: string): Promise<Map<string, T>>;
+    /** Deletes the given documents; keys with no document are ignored. */
+    deleteMany(collectionName: string, keys: string[]): Promise<void>;
+}
+
+export type CacheStoreKind = 'firestore' | 'memory' | 'file';
+
+// --- Timestamp Helpers ---
+
+// 1. Type Guard: Checks if an object is a Firestore Timestamp instance
+function isFirestoreTimestamp(value: unknown): value is Timestamp {
+    if (typeof value !== 'object' || value === null) {
+        return false;
+    }
+
+    const hasToMillis = (value as { toMillis: unknown }).toMillis;
+    return typeof hasToMillis === 'function';
+}
+
+/**
+ * Whether a stored value is usable as an entry timestamp (a Firestore Timestamp or finite ms since epoch).
+ */
+export function isCacheTimestamp(value: unknown): boolean {
+    return isFirestoreTimestamp(value) || (typeof value === 'number' && Number.isFinite(value) && value > 0);
+}
+
+/**
+ * Safely converts a stored timestamp to milliseconds regardless of the stored type.
+ * Firestore may hand back a Timestamp object, the other backends store plain numbers.
+ * @param timestamp The stored timestamp value.
+ * @returns Milliseconds since epoch, or 0 if the value is unusable.
+ */
+export function getTimestampInMs(timestamp: number | Timestamp): number {
+    if (isFirestoreTimestamp(timestamp)) {
+        return timestamp.toMillis();
+    }
+    // Assume it's already a number (milliseconds since epoch) if not a Timestamp object
+    if (typeof timestamp === 'number') {
+        return timestamp;
+    }
+    // Fallback for safety
+    return 0;
+}
+
+// --- Firestore Backend ---
+
+// --- Firebase Configuration from Environment Variables ---
+const firebaseConfig = {
+    apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY as string | undefined,
+    projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID as string | undefined,
+    appId: process.env.NEXT_PUBLIC_FIREBASE_APP_ID as string | undefined,
+};
+
+let firestoreInstance: Firestore | null = null;
+let firebaseAppInstance: FirebaseApp | null = null;
+
+// Internal function to initialize Firebase client SDK safely on the server
+function getFirestoreInstance(): Firestore | null {
+    if (firestoreInstance) {
+        return firestoreInstance;
+    }
+
+    try {
+        const configAppId = (firebaseConfig.appId || firebaseConfig.projectId || 'default-nextjs-app') as string;
+
+        if (!firebaseConfig.apiKey || !firebaseConfig.projectId) {
+            logger.error('Firebase is not configured (NEXT_PUBLIC_FIREBASE_API_KEY / NEXT_PUBLIC_FIREBASE_PROJECT_ID missing), skipping Firestore operations');
+            return null;
+        }
+
+        const existingApps = getApps();
+
+        if (existingApps.some((a: FirebaseApp) => a.name === configAppId)) {
+            firebaseAppInstance = getApp(configAppId);
+        } else {
+            firebaseAppInstance = initializeApp(firebaseConfig, configAppId);
+        }
+
+        firestoreInstance = getFirestore(firebaseAppInstance);
+        return firestoreInstance;
+
+    } catch (e) {
+        logger.error('Failed to initialize Firebase or parse config', { error: e });
+        return null;
+    }
+}
+
+// Utility to generate the required public path using the provided global ID
+function getPublicCollectionPathLocal(collectionName: string): string {
+    const configAppId = (process.env.NEXT_PUBLIC_FIREBASE_APP_ID || process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID || 'default-app-id') as string;
+    return `artifacts/${configAppId}/public/data/${collectionName}`;
+}
+
+const FIRESTORE_IN_QUERY_LIMIT = 30;
+const FIRESTORE_BATCH_WRITE_LIMIT = 500;
+
+/**
+ * Stores documents under /artifacts/{appId}/public/data/{collectionName}.
+ * If Firebase is not configured, reads miss and writes are skipped.
+ */
+export function createFirestoreCacheStore(): CacheStore {
+    return {
+        name: 'firestore',
+
+        async get<T>(collectionName: string, key: string): Promise<T | null> {
+            const db = getFirestoreInstance();
+            if (!db) return null;
+
+            const collectionPath = getPublicCollectionPathLocal(collectionName);
+            logger.debug('Firestore read', { path: `${collectionPath}/${key}` });
+
+            const snapshot = await getDoc(doc(db, collectionPath, key));
+            return snapshot.exists() ? (snapshot.data() as T) : null;
+        },
+
+        async getMany<T>(collectionName: string, keys: string[]): Promise<Map<string, T>> {
+            const results = new Map<string, T>();
+            const db = getFirestoreInstance();
+            if (!db || keys.length === 0) return results;
+
+            const collectionPath = getPublicCollectionPathLocal(collectionName);
+            logger.debug('Firestore batch read', { path: collectionPath, documents: keys.length });
+
+            // Firestore caps 'in' filters at 30 values, so large batches become a few parallel queries
+            const chunks: string[][] = [];
+            for (let i = 0; i < keys.length; i += FIRESTORE_IN_QUERY_LIMIT) {
+                chunks.push(keys.slice(i, i + FIRESTORE_IN_QUERY_LIMIT));
+            }
+
+            const snapshots = await Promise.all(chunks.map((chunk) =>
+                getDocs(query(collection(db, collectionPath), where(documentId(), 'in', chunk)))
+            ));
+            snapshots.forEach((snapshot) => {
+                snapshot.forEach((document) => results.set(document.id, document.data() as T));
+            });
+
+            return results;
+        },
+
+        async set<T>(collectionName: string, key: string, value: T): Promise<void> {
+            const db = getFirestoreInstance();
+            if (!db) return;
+
+            await setDoc(doc(db, getPublicCollectionPathLocal(collectionName), key), value as object);
+        },
+
+        async list<T>(collectionName: string): Promise<Map<string, T>> {
+            const results = new Map<string, T>();
+            const db = getFirestoreInstance();
+            if (!db) return results;
+
+            const collectionPath = getPublicCollectionPathLocal(collectionName);
+            logger.debug('Firestore collection scan', { path: collectionPath });
+
+            const snapshot = await getDocs(collection(db, collectionPath));
+            snapshot.forEach((document) => results.set(document.id, document.data() as T));
+            return results;
+        },
+
+        async deleteMany(collectionName: string, keys: string[]): Promise<void> {
+            const db = getFirestoreInstance();
+            if (!db || keys.length === 0) return;
+
+            const collectionPath = getPublicCollectionPathLocal(collectionName);
+            // A write batch holds at most 500 operations
+            for (let i = 0; i < keys.length; i += FIRESTORE_BATCH_WRITE_LIMIT) {
+                const batch = writeBatch(db);
+                keys.slice(i, i + FIRESTORE_BATCH_WRITE_LIMIT).forEach((key) => batch.delete(doc(db, collectionPath, key)));
+                await batch.commit();
+            }
+        },
+    };
+}
+
+// --- In-Memory Backend ---
+
+/**
+ * Keeps documents in a per-process Map. Useful for local development and tests;
+ * entries are lost on restart and are not shared between server instances.
+ */
+export function createMemoryCacheStore(): CacheStore {
+    const collections = new Map<string, Map<string, unknown>>();
+
+    const getCollection = (collectionName: string) => {
+        let collection = collections.get(collectionName);
+        if (!collection) {
+            collection = new Map();
+            collections.set(collectionName, collection);
+        }
+        return collection;
+    };
+
+    return {
+        name: 'memory',
+
+        async get<T>(collectionName: string, key: string): Promise<T | null> {
+            const value = getCollection(collectionName).get(key);
+            // Hand out copies so callers can't mutate the stored document
+            return value === undefined ? null : (structuredClone(value) as T);
+        },
+
+        async getMany<T>(collectionName: string, keys: string[]): Promise<Map<string, T>> {
+            const collection = getCollection(collectionName);
+            const results = new Map<string, T>();
+            for (const key of keys) {
+                const value = collection.get(key);
+                if (value !== undefined) {
+                    results.set(key, structuredClone(value) as T);
+                }
+            }
+            return results;
+        },
+
+        async set<T>(collectionName: string, key: string, value: T): Promise<void> {
+            getCollection(collectionName).set(key, structuredClone(value));
+        },
+
+        async list<T>(collectionName: string): Promise<Map<string, T>> {
+            const results = new Map<string, T>();
+            getCollection(collectionName).forEach((value, key) => results.set(key, structuredClone(value) as T));
+            return results;
+        },
+
+        async deleteMany(collectionName: string, keys: string[]): Promise<void> {
+            const collection = getCollection(collectionName);
+            keys.forEach((key) => collection.delete(key));
+        },
+    };
+}
+
+// --- Local File Backend ---
+
+/**
+ * Persists each collection as a JSON file ({directory}/{collectionName}.json).
+ * Survives restarts without any external service; intended for a single process.
+ * @param directory Folder holding the collection files (CACHE_FILE_DIR, default '.cache').
+ */
+export function createFileCacheStore(directory: string): CacheStore {
+    const collectionFile = (collectionName: string) => path.join(directory, `${collectionName}.json`);
+
+    const readCollection = async (collectionName: string): Promise<Record<string, unknown>> => {
+        try {
+            const raw = await fs.readFile(collectionFile(collectionName), 'utf8');
+            return JSON.parse(raw) as Record<string, unknown>;
+        } catch (e) {
+            if ((e as NodeJS.ErrnoException).code === 'ENOENT') {
+                return {};
+            }
+            throw e;
+        }
+    };
+
+    // Serialize writes so concurrent requests don't clobber each other's updates
+    let writeQueue: Promise<void> = Promise.resolve();
+
+    const enqueueWrite = (collectionName: string, update: (collection: Record<string, unknown>) => void): Promise<void> => {
+        const write = writeQueue.then(async () => {
+            const collection = await readCollection(collectionName);
+            update(collection);
+            await fs.mkdir(directory, { recursive: true });
+            await fs.writeFile(collectionFile(collectionName), JSON.stringify(collection, null, 2), 'utf8');
+        });
+        // Keep the queue alive even if this write fails
+        writeQueue = write.catch(() => undefined);
+        return write;
+    };
+
+    return {
+        name: 'file',
+
+        async get<T>(collectionName: string, key: string): Promise<T | null> {
+            const collection = await readCollection(collectionName);
+            return (collection[key] as T | undefined) ?? null;
+        },
+
+        async getMany<T>(collectionName: string, keys: string[]): Promise<Map<string, T>> {
+            // One file read serves the whole batch
+            const collection = await readCollection(collectionName);
+            const results = new Map<string, T>();
+            for (const key of keys) {
+                if (key in collection) {
+                    results.set(key, collection[key] as T);
+                }
+            }
+            return results;
+        },
+
+        async set<T>(collectionName: string, key: string, value: T): Promise<void> {
+            return enqueueWrite(collectionName, (collection) => {
+                collection[key] = value;
+            });
+        },
+
+        async list<T>(collectionName: string): Promise<Map<string, T>> {
+            const collection = await readCollection(collectionName);
+            return new Map(Object.entries(collection) as [string, T][]);
+        },
+
+        async deleteMany(collectionName: string, keys: string[]): Promise<void> {
+            if (keys.length === 0) return;
+            return enqueueWrite(collectionName, (collection) => {
+                keys.forEach((key) => delete collection[key]);
+            });
+        },
+    };
+}
+
+// --- Store Selection ---
+
+function createBackend(kind: string, settingName: string): CacheStore {
+    switch (kind.toLowerCase() as CacheStoreKind) {
+        case 'memory':
+            return createMemoryCacheStore();
+        case 'file':
+            return createFileCacheStore(process.env.CACHE_FILE_DIR || '.cache');
+        case 'firestore':
+            return createFirestoreCacheStore();
+        default:
+            logger.error('Unknown cache store, falling back to Firestore', { setting: settingName, kind });
+            return createFirestoreCacheStore();
+    }
+}
+
+/**
+ * Creates a store of the given kind, instrumented for /api/metrics. Unknown kinds fall back to Firestore.
+ * @param kind 'firestore', 'memory' or 'file' (case-insensitive).
+ * @param settingName The environment variable the kind came from, for the error log.
+ */
+export function createCacheStore(kind: string, settingName = 'CACHE_STORE'): CacheStore {
+    return instrumentCacheStore(createBackend(kind, settingName));
+}
+
+let cacheStoreInstance: CacheStore | null = null;
+
+/**
+ * Returns the configured cache store (singleton per server process).
+ * CACHE_STORE selects the backend; unknown values fall back to Firestore.
+ */
+export function getCacheStore(): CacheStore {
+    if (!cacheStoreInstance) {
+        cacheStoreInstance = createCacheStore(process.env.CACHE_STORE || 'firestore');
+    }
+    return cacheStoreInstance;
+}
@@ -0,0 +1,120 @@
+import { CacheStore } from '@/utils/cacheStore';
+import { readNumberEnv } from '@/utils/env';
+import { describeLocationQuery } from '@/utils/geocoding';
+import { logger } from '@/utils/logger';
+import { incrementCounter } from '@/utils/metrics';
+import { flushRequestCounts, getTopRequested } from '@/utils/popularity';
+import { CACHE_DURATION_MS, fetchAndCacheWeatherBatch, getEntryAgeMs, readWeatherCacheMany } from '@/utils/weather';
+
+// --- Popularity-Based Cache Warming ---
+// Refreshes the most requested cities shortly before their weather_cache entries expire,
+// so the first request after expiry is still a hit. Runs from POST /api/admin/warm
+// (scripts/warm-cache.mjs calls it on a schedule).
+
+export interface CacheWarmerOptions {
+    /** How many of the most requested keys are considered. */
+    topN: number;
+    /** Maximum locations refreshed per run; each counts as one upstream weather call. */
+    upstreamBudget: number;
+    /** Cached entries expiring within this window (or already expired) are refreshed. */
+    refreshAheadMs: number;
+    /** Keys not requested for this long are no longer warmed. */
+    maxIdleMs: number;
+}
+
+export function getCacheWarmerOptions(): CacheWarmerOptions {
+    return {
+        topN: readNumberEnv('CACHE_WARMER_TOP_N', 20),
+        upstreamBudget: readNumberEnv('CACHE_WARMER_UPSTREAM_BUDGET', 10),
+        refreshAheadMs: readNumberEnv('CACHE_WARMER_REFRESH_AHEAD_MS', 60 * 1000),
+        maxIdleMs: readNumberEnv('CACHE_WARMER_MAX_IDLE_MS', 24 * 60 * 60 * 1000),
+    };
+}
+
+// 'uncached': never successfully cached (e.g., an unknown city), so there is nothing to keep warm
+type SkipReason = 'fresh' | 'budget' | 'uncached';
+
+export interface CacheWarmerReport {
+    startedAt: string;
+    durationMs: number;
+    options: CacheWarmerOptions;
+    considered: number;
+    upstreamCallsUsed: number;
+    refreshed: { cacheKey: string; city: string; requests: number }[];
+    failed: { cacheKey: string; city: string; error: string }[];
+    skipped: { cacheKey: string; city: string; reason: SkipReason; expiresInMs?: number }[];
+}
+
+/**
+ * Runs one warming pass: ranks keys by request count, keeps the ones whose cached entry is
+ * close to expiry (or already expired), and refreshes as many as the upstream budget allows
+ * (most requested first) in a single batch fetch.
+ * @throws If the request counts or the cache can't be read from the store.
+ */
+export async function warmCache(store: CacheStore, options: CacheWarmerOptions = getCacheWarmerOptions()): Promise<CacheWarmerReport> {
+    const startedAt = Date.now();
+
+    // Include this instance's buffered counts in the ranking
+    await flushRequestCounts();
+    const candidates = await getTopRequested(options.topN, options.maxIdleMs);
+    const entries = await readWeatherCacheMany(store, candidates.map((c) => c.cacheKey));
+
+    const report: CacheWarmerReport = {
+        startedAt: new Date(startedAt).toISOString(),
+        durationMs: 0,
+        options,
+        considered: candidates.length,
+        upstreamCallsUsed: 0,
+        refreshed: [],
+        failed: [],
+        skipped: [],
+    };
+
+    const toRefresh: typeof candidates = [];
+    for (const candidate of candidates) {
+        const city = describeLocationQuery(candidate.query);
+        const entry = entries.get(candidate.cacheKey);
+        if (!entry) {
+            report.skipped.push({ cacheKey: candidate.cacheKey, city, reason: 'uncached' });
+            continue;
+        }
+
+        const expiresInMs = CACHE_DURATION_MS - getEntryAgeMs(entry, startedAt);
+        if (expiresInMs > options.refreshAheadMs) {
+            report.skipped.push({ cacheKey: candidate.cacheKey, city, reason: 'fresh', expiresInMs });
+        } else if (toRefresh.length >= options.upstreamBudget) {
+            report.skipped.push({ cacheKey: candidate.cacheKey, city, reason: 'budget', expiresInMs });
+        } else {
+            toRefresh.push(candidate);
+        }
+    }
+
+    if (toRefresh.length > 0) {
+        const outcomes = await fetchAndCacheWeatherBatch(toRefresh.map((c) => ({ query: c.query, cacheKey: c.cacheKey })), store);
+        report.upstreamCallsUsed = toRefresh.length;
+
+        for (const candidate of toRefresh) {
+            const city = describeLocationQuery(candidate.query);
+            const outcome = outcomes.get(candidate.cacheKey);
+
+            if (outcome && !(outcome instanceof Error)) {
+                report.refreshed.push({ cacheKey: candidate.cacheKey, city, requests: candidate.count });
+                incrementCounter('cache_warmer_refreshes_total', { outcome: 'refreshed' });
+            } else {
+                report.failed.push({ cacheKey: candidate.cacheKey, city, error: outcome?.message ?? 'No result' });
+                incrementCounter('cache_warmer_refreshes_total', { outcome: 'failed' });
+            }
+        }
+    }
+
+    report.durationMs = Date.now() - startedAt;
+    logger.info('Cache warming finished', {
+        considered: report.considered,
+        refreshed: report.refreshed.length,
+        failed: report.failed.length,
+        skipped: report.skipped.length,
+        durationMs: report.durationMs,
+    });
+
+    return report;
+}
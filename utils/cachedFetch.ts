@@ -0,0 +1,153 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import type { WeatherSource } from '@/utils/contract';
+import { CacheStore, getTimestampInMs } from '@/utils/cacheStore';
+import { WeatherFetchError } from '@/utils/errors';
+import { Schema, parseCached } from '@/utils/schema';
+import { SingleFlight } from '@/utils/singleFlight';
+import { STALE_IF_ERROR_MS, STALE_WHILE_REVALIDATE_MS } from '@/utils/weather';
+import { cachedJsonResponse, errorJsonResponse, weatherErrorResponse } from '@/utils/httpCache';
+import { consumeRateLimit, rateLimitedResponse } from '@/utils/rateLimit';
+import { recordCacheLookup } from '@/utils/metrics';
+import { annotateRequest, logger } from '@/utils/logger';
+
+// --- Cache-first serving shared by /api/v1/weather, /api/forecast and /api/proxy ---
+// One flow for every cached GET: fresh hit, stale-while-revalidate, coalesced miss and stale-if-error.
+
+export interface CachedEntry<D> {
+    data: D;
+    timestamp: number;
+}
+
+export interface CachedFetchOptions<D> {
+    store: CacheStore;
+    /** Cache collection; also the cache name in metrics. */
+    collection: string;
+    /** Validates what the store returns (a malformed entry counts as a miss). */
+    entrySchema: Schema<CachedEntry<D>>;
+    cacheKey: string;
+    ttlMs: number;
+    /** Fetches from the upstream and writes the entry; runs through `flights`, so one call per key at a time. */
+    fetcher: () => Promise<CachedEntry<D>>;
+    flights: SingleFlight<CachedEntry<D>>;
+    /** Builds the response body from an entry's data. */
+    render: (data: D, source: WeatherSource) => unknown;
+    clientId: string;
+    /** ETag variant, for entries that render differently per request (e.g. units). */
+    variant?: string;
+    /** Added to every log line (e.g. { city } or { proxyRoute }). */
+    logContext: Record<string, unknown>;
+}
+
+/**
+ * Whether a failed refresh may fall back to a stale entry: upstream and server failures yes,
+ * anything the upstream rejected as a bad request (404 city, 400 params) no.
+ */
+export function canServeStaleAfter(error: unknown): boolean {
+    const status = error instanceof WeatherFetchError ? error.status : 500;
+    return status >= 500;
+}
+
+/**
+ * Serves an entry from the cache, refreshing it from the upstream when it is missing or expired.
+ * Hits draw from the client's hit bucket and misses from the miss bucket.
+ */
+export async function serveCached<D>(request: NextRequest, options: CachedFetchOptions<D>): Promise<NextResponse> {
+    const { store, collection, cacheKey, ttlMs, flights, fetcher, render, clientId, variant, logContext } = options;
+    const refresh = () => flights.run(cacheKey, fetcher);
+
+    const respondFromEntry = (entry: CachedEntry<D>, source: 'cache' | 'stale') =>
+        cachedJsonResponse(request, render(entry.data, source), {
+            cacheKey, variant,
+            timestamp: getTimestampInMs(entry.timestamp),
+            ttlMs,
+            cacheStatus: source === 'cache' ? 'HIT' : 'STALE',
+        });
+
+    // 1. Check Cache (an expired entry is kept as a fallback if the upstream is failing)
+    let cachedEntry: CachedEntry<D> | null = null;
+    let entryAgeMs = Infinity;
+    try {
+        cachedEntry = parseCached(options.entrySchema, await store.get<unknown>(collection, cacheKey), collection);
+
+        if (cachedEntry) {
+            entryAgeMs = Date.now() - getTimestampInMs(cachedEntry.timestamp);
+
+            if (entryAgeMs < ttlMs) {
+                const hitLimit = await consumeRateLimit(clientId, 'hit');
+                if (!hitLimit.allowed) {
+                    return rateLimitedResponse(hitLimit, 'hit');
+                }
+
+                annotateRequest({ cacheOutcome: 'HIT' });
+                logger.info('Cache hit', { ...logContext, store: store.name });
+                recordCacheLookup(store.name, collection, 'hit');
+                return respondFromEntry(cachedEntry, 'cache');
+            }
+
+            // Expired but inside the grace window: answer now, refresh after the response is sent
+            if (entryAgeMs < ttlMs + STALE_WHILE_REVALIDATE_MS) {
+                const hitLimit = await consumeRateLimit(clientId, 'hit');
+                if (!hitLimit.allowed) {
+                    return rateLimitedResponse(hitLimit, 'hit');
+                }
+
+                annotateRequest({ cacheOutcome: 'STALE' });
+                logger.info('Stale hit, revalidating in background', { ...logContext, store: store.name });
+                recordCacheLookup(store.name, collection, 'stale');
+                after(async () => {
+                    try {
+                        await refresh();
+                    } catch (refreshError) {
+                        logger.error('Background refresh failed', { ...logContext, error: refreshError });
+                    }
+                });
+                return respondFromEntry(cachedEntry, 'stale');
+            }
+        }
+        recordCacheLookup(store.name, collection, 'miss');
+    } catch (dbError) {
+        logger.error('Failed to read cache', { ...logContext, collection, store: store.name, error: dbError });
+        recordCacheLookup(store.name, collection, 'error');
+    }
+
+    // A miss costs upstream calls, so it draws from the (smaller) miss bucket
+    const missLimit = await consumeRateLimit(clientId, 'miss');
+    if (!missLimit.allowed) {
+        return rateLimitedResponse(missLimit, 'miss');
+    }
+
+    // 2. Fetch, Transform and Cache
+    annotateRequest({ cacheOutcome: 'MISS' });
+    try {
+        const { value: fresh, waiters } = await refresh();
+
+        if (waiters > 0) {
+            logger.info('Coalesced concurrent requests', { ...logContext, waiters });
+        }
+
+        // X-Coalesced-Waiters: callers that shared this upstream fetch, for debugging
+        return cachedJsonResponse(request, render(fresh.data, 'api'), {
+            cacheKey, variant,
+            timestamp: fresh.timestamp,
+            ttlMs,
+            cacheStatus: 'MISS',
+            headers: { 'X-Coalesced-Waiters': String(waiters) },
+        });
+
+    } catch (error) {
+        // Stale-if-error: an old entry beats an error page while the upstream is down
+        if (cachedEntry && canServeStaleAfter(error) && entryAgeMs < ttlMs + STALE_IF_ERROR_MS) {
+            annotateRequest({ cacheOutcome: 'STALE' });
+            logger.warn('Upstream failed, serving stale entry', { ...logContext, error });
+            return respondFromEntry(cachedEntry, 'stale');
+        }
+
+        if (error instanceof WeatherFetchError) {
+            logger.warn('Upstream request failed', { ...logContext, status: error.status, error });
+            return weatherErrorResponse(error);
+        }
+
+        logger.error('Unexpected error processing request', { ...logContext, error });
+        return errorJsonResponse('Internal Server Error', 500);
+    }
+}
@@ -0,0 +1,158 @@
+import type { ErrorCode } from '@/utils/errors';
+import type { WeatherCondition } from '@/utils/weatherCodes';
+
+// --- Public API Contract (v1) ---
+// The request and response shapes of the weather API, shared by the route handlers and the page.
+// Nothing here may import server-only code: the page bundles this module. The matching runtime
+// schemas (cache validation, OpenAPI document) are in utils/contractSchemas.ts.
+
+export type { ErrorCode, WeatherCondition };
+
+export const API_VERSION = 'v1';
+
+export const WEATHER_PROVIDER_NAMES = ['open-meteo', 'met-norway'] as const;
+export type WeatherProviderName = typeof WEATHER_PROVIDER_NAMES[number];
+
+// --- Units ---
+
+export const TEMPERATURE_UNITS = ['celsius', 'fahrenheit'] as const;
+export type TemperatureUnit = typeof TEMPERATURE_UNITS[number];
+
+export const WIND_SPEED_UNITS = ['kmh', 'mph', 'ms', 'kn'] as const; // Same names as Open-Meteo's wind_speed_unit
+export type WindSpeedUnit = typeof WIND_SPEED_UNITS[number];
+
+export interface UnitSelection {
+    temperature: TemperatureUnit;
+    windSpeed: WindSpeedUnit;
+}
+
+// --- Current Conditions (/api/v1/weather, /api/weather/batch) ---
+
+/** Where a response came from: a fresh cache entry, the upstream, or an expired entry served while refreshing or on upstream failure. */
+export type WeatherSource = 'cache' | 'api' | 'stale';
+
+export interface WeatherData {
+    cityName: string;
+    country: string;
+    countryCode?: string; // ISO 3166-1 alpha-2, when geocoding reported it
+    admin1?: string; // First-level region, when geocoding reported it
+    temperature: number; // Sticking to number for easier manipulation
+    description: string; // In the requested language (?lang=)
+    weatherCode: number; // WMO code (-1 if the provider's condition has no WMO equivalent)
+    condition: WeatherCondition; // Language-independent, for icons and styling
+    windKmh: number;
+    lastUpdated: string; // Time string
+    source: WeatherSource;
+    provider: WeatherProviderName; // Upstream that produced the data (kept in the cache entry)
+
+    apparentTemperature: number;
+    windGusts: number;
+    cloudCover: number;
+    isDay: number; // 1 for day, 0 for night
+    humidity: number;
+    tempMax: number;
+    tempMin: number;
+}
+
+/**
+ * Weather response in the requested units. `windKmh` stays in km/h for existing clients;
+ * `windSpeed` and `windGusts` use the selected wind unit.
+ */
+export interface WeatherResponse extends WeatherData {
+    windSpeed: number;
+    units: UnitSelection;
+}
+
+// --- Forecast (/api/forecast) ---
+
+export interface DailyForecast {
+    date: string; // YYYY-MM-DD in the location's timezone
+    tempMax: number;
+    tempMin: number;
+    precipitationProbability: number; // Max for the day, in %
+    weatherCode: number; // -1 where Open-Meteo has no value
+    condition: WeatherCondition;
+    description: string;
+    windMaxKmh: number;
+}
+
+export interface HourlyForecast {
+    time: string; // ISO local time string
+    temperature: number;
+    precipitationProbability: number;
+    weatherCode: number; // -1 where Open-Meteo has no value
+    condition: WeatherCondition;
+    description: string;
+    windKmh: number;
+}
+
+export interface ForecastData {
+    cityName: string;
+    country: string;
+    timezone: string;
+    daily: DailyForecast[];
+    hourly: HourlyForecast[];
+    source: WeatherSource;
+}
+
+// Response shape: temperatures converted in place, wind added in the selected unit
+// (the *Kmh fields stay canonical, mirroring windKmh/windSpeed in /api/v1/weather)
+export interface ForecastResponse extends Omit<ForecastData, 'daily' | 'hourly'> {
+    daily: (DailyForecast & { windMax: number })[];
+    hourly: (HourlyForecast & { windSpeed: number })[];
+    units: UnitSelection;
+}
+
+// --- City Search (/api/geocode) ---
+
+/**
+ * One match for a free-text city search, in Open-Meteo's ranking order.
+ */
+export interface GeocodeCandidate {
+    rank: number; // 1 = best match
+    name: string;
+    admin1: string | null;
+    country: string;
+    countryCode: string;
+    latitude: number;
+    longitude: number;
+    population: number | null;
+}
+
+export interface GeocodeResponse {
+    query: string; // The search as understood, filters included
+    count: number;
+    candidates: GeocodeCandidate[];
+}
+
+// --- Batch Lookups (POST /api/weather/batch) ---
+
+// Each item is a city name, or an object with either `city` (plus optional filters) or `lat` + `lon`
+export type BatchRequestItem = string | { city?: string; country?: string; admin1?: string; lat?: number | string; lon?: number | string };
+
+export interface BatchRequest {
+    items: BatchRequestItem[];
+}
+
+export interface BatchResultItem {
+    index: number;
+    query: BatchRequestItem;
+    status: number;
+    data?: WeatherResponse;
+    error?: string;
+    code?: ErrorCode; // Set with `error`, same values as the code in error response bodies
+}
+
+export interface BatchResponse {
+    results: BatchResultItem[];
+}
+
+// --- Errors ---
+
+/**
+ * Body of every API error response.
+ */
+export interface ErrorBody {
+    error: string; // Human-readable, prefixed with the status text (e.g. "Bad Request: ...")
+    code: ErrorCode;
+}
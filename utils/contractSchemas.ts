@@ -0,0 +1,145 @@
+import type {
+    BatchRequest, BatchRequestItem, BatchResponse, DailyForecast, ErrorBody, ForecastData, ForecastResponse, GeocodeCandidate,
+    GeocodeResponse, HourlyForecast, UnitSelection, WeatherData, WeatherResponse,
+} from '@/utils/contract';
+import { TEMPERATURE_UNITS, WEATHER_PROVIDER_NAMES, WIND_SPEED_UNITS } from '@/utils/contract';
+import { ERROR_CODES } from '@/utils/errors';
+import { Schema, array, custom, nullable, number, object, oneOf, optional, string } from '@/utils/schema';
+import { WEATHER_CONDITIONS } from '@/utils/weatherCodes';
+
+// --- Runtime Schemas for the API contract (utils/contract.ts) ---
+// Typed against the contract interfaces, so a field added on one side and not the other fails tsc.
+// The *Record schemas validate cache entries (no `source`, metric units only); the *Response
+// schemas describe what the routes return and are what the OpenAPI document is built from.
+
+const source = oneOf(['cache', 'api', 'stale'] as const);
+
+export const unitSelectionSchema: Schema<UnitSelection> = object({
+    temperature: oneOf(TEMPERATURE_UNITS),
+    windSpeed: oneOf(WIND_SPEED_UNITS),
+});
+
+// --- Current Conditions ---
+
+const weatherFields = {
+    cityName: string,
+    country: string,
+    countryCode: optional(string),
+    admin1: optional(string),
+    temperature: number,
+    description: string,
+    weatherCode: number,
+    condition: oneOf(WEATHER_CONDITIONS),
+    windKmh: number,
+    lastUpdated: string,
+    provider: oneOf(WEATHER_PROVIDER_NAMES),
+    apparentTemperature: number,
+    windGusts: number,
+    cloudCover: number,
+    isDay: number,
+    humidity: number,
+    tempMax: number,
+    tempMin: number,
+};
+
+export const weatherRecordSchema: Schema<Omit<WeatherData, 'source'>> = object(weatherFields);
+
+export const weatherResponseSchema: Schema<WeatherResponse> = object({
+    ...weatherFields,
+    source,
+    windSpeed: number,
+    units: unitSelectionSchema,
+});
+
+// --- Forecast ---
+
+const forecastRowFields = {
+    precipitationProbability: number,
+    weatherCode: number,
+    condition: oneOf(WEATHER_CONDITIONS),
+    description: string,
+};
+
+const dailyForecastFields = { ...forecastRowFields, date: string, tempMax: number, tempMin: number, windMaxKmh: number };
+const hourlyForecastFields = { ...forecastRowFields, time: string, temperature: number, windKmh: number };
+
+export const dailyForecastSchema: Schema<DailyForecast> = object(dailyForecastFields);
+export const hourlyForecastSchema: Schema<HourlyForecast> = object(hourlyForecastFields);
+
+export const forecastRecordSchema: Schema<Omit<ForecastData, 'source'>> = object({
+    cityName: string,
+    country: string,
+    timezone: string,
+    daily: array(dailyForecastSchema),
+    hourly: array(hourlyForecastSchema),
+});
+
+export const forecastResponseSchema: Schema<ForecastResponse> = object({
+    cityName: string,
+    country: string,
+    timezone: string,
+    source,
+    daily: array(object({ ...dailyForecastFields, windMax: number })),
+    hourly: array(object({ ...hourlyForecastFields, windSpeed: number })),
+    units: unitSelectionSchema,
+});
+
+// --- City Search ---
+
+export const geocodeCandidateSchema: Schema<GeocodeCandidate> = object({
+    rank: number,
+    name: string,
+    admin1: nullable(string),
+    country: string,
+    countryCode: string,
+    latitude: number,
+    longitude: number,
+    population: nullable(number),
+});
+
+export const geocodeResponseSchema: Schema<GeocodeResponse> = object({
+    query: string,
+    count: number,
+    candidates: array(geocodeCandidateSchema),
+});
+
+// --- Batch Lookups ---
+// Items are parsed by the route with the GET parameter rules, so these only describe the shape
+
+const batchRequestItemJsonSchema = {
+    oneOf: [
+        { type: 'string', description: 'City name' },
+        {
+            type: 'object',
+            properties: {
+                city: { type: 'string' },
+                country: { type: 'string', description: 'ISO 3166-1 alpha-2 code' },
+                admin1: { type: 'string' },
+                lat: { type: ['number', 'string'] },
+                lon: { type: ['number', 'string'] },
+            },
+        },
+    ],
+};
+
+export const batchRequestSchema: Schema<BatchRequest> = object({
+    items: array(custom<BatchRequestItem>((value) => typeof value === 'string' || (typeof value === 'object' && value !== null), 'a string or an object', batchRequestItemJsonSchema), 1),
+});
+
+export const batchResponseSchema: Schema<BatchResponse> = object({
+    results: array(object({
+        index: number,
+        query: custom<BatchRequestItem>((value) => value !== undefined, 'the request item', batchRequestItemJsonSchema),
+        status: number,
+        data: optional(weatherResponseSchema),
+        error: optional(string),
+        code: optional(oneOf(ERROR_CODES)),
+    })),
+});
+
+// --- Errors ---
+
+export const errorBodySchema: Schema<ErrorBody> = object({
+    error: string,
+    code: oneOf(ERROR_CODES),
+});
@@ -0,0 +1,13 @@
+// --- Environment Variable Helpers (server-side configuration) ---
+
+/**
+ * Reads a non-negative number from the environment, falling back to the default
+ * when the variable is missing or not a valid number.
+ * @param name The environment variable name (e.g., 'CACHE_STALE_IF_ERROR_MS').
+ * @param fallback The value used when the variable is unset or invalid.
+ */
+export function readNumberEnv(name: string, fallback: number): number {
+    const raw = process.env[name];
+    const parsed = raw === undefined || raw.trim() === '' ? NaN : Number(raw);
+    return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
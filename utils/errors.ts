@@ -0,0 +1,80 @@
+/**
+ * Machine-readable error kind, sent as `code` next to `error` in every JSON error body.
+ * The upstream-* codes tell clients whether retrying later can help (upstream-down) or not
+ * until the upstream is fixed (upstream-invalid).
+ */
+export const ERROR_CODES = [
+    'bad-request',
+    'unauthorized',
+    'forbidden',
+    'not-found',
+    'rate-limited',
+    'internal',
+    'unavailable', // One of our own dependencies (cache or key store) is failing
+    'upstream-invalid',
+    'upstream-down',
+] as const;
+
+export type ErrorCode = typeof ERROR_CODES[number];
+
+/**
+ * Default code for a status, for errors that don't name one.
+ */
+export function errorCodeForStatus(status: number): ErrorCode {
+    switch (status) {
+        case 400: return 'bad-request';
+        case 401: return 'unauthorized';
+        case 403: return 'forbidden';
+        case 404: return 'not-found';
+        case 429: return 'rate-limited';
+        case 502:
+        case 504: return 'upstream-down';
+        case 503: return 'unavailable';
+        default: return status >= 500 ? 'internal' : 'bad-request';
+    }
+}
+
+/**
+ * Error raised while producing weather data, carrying the HTTP status the
+ * route should respond with (e.g., 404 for an unknown city, 502 for upstream failures).
+ */
+export class WeatherFetchError extends Error {
+    public readonly code: ErrorCode;
+
+    constructor(message: string, public readonly status: number, code?: ErrorCode) {
+        super(message);
+        this.name = 'WeatherFetchError';
+        this.code = code ?? errorCodeForStatus(status);
+    }
+}
+
+/**
+ * The requested place (or resource) does not exist upstream. Never served stale.
+ */
+export class NotFoundError extends WeatherFetchError {
+    constructor(message: string) {
+        super(message, 404, 'not-found');
+        this.name = 'NotFoundError';
+    }
+}
+
+/**
+ * An upstream could not be reached, timed out or answered with an error status.
+ */
+export class UpstreamDownError extends WeatherFetchError {
+    constructor(message: string, status = 502) {
+        super(message, status, 'upstream-down');
+        this.name = 'UpstreamDownError';
+    }
+}
+
+/**
+ * An upstream answered, but its payload did not match the expected schema. `path` names the
+ * first offending field; the details are logged, not sent to clients.
+ */
+export class UpstreamInvalidError extends WeatherFetchError {
+    constructor(public readonly service: string, public readonly path: string) {
+        super(`Bad Gateway: ${service} returned an unexpected response`, 502, 'upstream-invalid');
+        this.name = 'UpstreamInvalidError';
+    }
+}
@@ -0,0 +1,61 @@
+import {
+    collection, deleteDoc, doc, onSnapshot, orderBy, query, setDoc, Unsubscribe,
+} from 'firebase/firestore';
+import { getCityDocumentId, getFirebaseContext, getUserCollectionPath } from '@/utils/firebase';
+
+// --- Per-User Favorite Cities (client-side, /artifacts/{appId}/users/{userId}/favorites) ---
+// Only the place is stored; the pinned cards fetch their weather through the API (and its cache).
+
+const FAVORITES_COLLECTION = 'favorites';
+
+export interface FavoriteCity {
+    cityName: string;
+    country: string;
+    // Set when the city was picked from a "did you mean" list, so the pin keeps pointing at that place
+    countryCode?: string;
+    admin1?: string;
+}
+
+type StoredFavorite = FavoriteCity & { addedAt: number };
+
+// Firestore rejects undefined values, so the optional region fields are only copied when set
+function toFavorite({ cityName, country, countryCode, admin1 }: FavoriteCity): FavoriteCity {
+    return {
+        cityName,
+        country,
+        ...(countryCode ? { countryCode } : {}),
+        ...(admin1 ? { admin1 } : {}),
+    };
+}
+
+async function getFavoritesCollection() {
+    const { db, appId, userId } = await getFirebaseContext();
+    return collection(db, getUserCollectionPath(FAVORITES_COLLECTION, appId, userId));
+}
+
+/**
+ * Streams the signed-in user's favorites, in the order they were starred, into `onChange`.
+ * @returns The unsubscribe function.
+ * @throws If Firebase is not configured or anonymous sign-in fails.
+ */
+export async function subscribeToFavorites(
+    onChange: (favorites: FavoriteCity[]) => void,
+    onError: (error: Error) => void,
+): Promise<Unsubscribe> {
+    const favoritesCollection = await getFavoritesCollection();
+
+    return onSnapshot(query(favoritesCollection, orderBy('addedAt', 'asc')), (snapshot) => {
+        onChange(snapshot.docs.map((document) => toFavorite(document.data() as StoredFavorite)));
+    }, onError);
+}
+
+export async function addFavorite(favorite: FavoriteCity): Promise<void> {
+    const favoritesCollection = await getFavoritesCollection();
+    const stored: StoredFavorite = { ...toFavorite(favorite), addedAt: Date.now() };
+    await setDoc(doc(favoritesCollection, getCityDocumentId(favorite)), stored);
+}
+
+export async function removeFavorite(favorite: FavoriteCity): Promise<void> {
+    const favoritesCollection = await getFavoritesCollection();
+    await deleteDoc(doc(favoritesCollection, getCityDocumentId(favorite)));
+}
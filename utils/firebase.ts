@@ -1,5 +1,5 @@
 import { initializeApp, FirebaseApp, getApps, getApp } from 'firebase/app';
-import { getAuth, signInAnonymously, Auth } from 'firebase/auth';
+import { getAuth, signInAnonymously } from 'firebase/auth';
 import { getFirestore, Firestore } from 'firebase/firestore';
 
 // --- Global Variables provided by the execution environment ---
@@ -15,10 +15,14 @@ const firebaseConfig = {
 
 // --- Core Initialization Logic (Singleton Management) ---
 
-let app: FirebaseApp;
-let auth: Auth;
-let db: Firestore;
-let isInitialized = false;
+interface FirebaseContext {
+  db: Firestore;
+  appId: string;
+  userId: string;
+}
+
+// Shared by every caller; cleared if initialization fails
+let contextPromise: Promise<FirebaseContext> | null = null;
 
 /**
  * Generates the correct Firestore path for a public, shared collection.
@@ -34,23 +38,34 @@ export function getPublicCollectionPath(collectionName: string, appId: string):
 }
 
 /**
- * Initializes Firebase (if not already done), authenticates the user, and 
- * returns the Firestore context. This ensures the database connection is a singleton.
- * * This function replaces the previous 'initializeFirebase' export.
- * @returns {Promise<{db: Firestore, appId: string, userId: string}>} The Firestore instance and necessary context.
+ * Generates the Firestore path for a collection private to one (anonymous) user.
+ * Path: /artifacts/{appId}/users/{userId}/{collectionName}
+ * @param collectionName The name of the specific collection (e.g., 'search_history').
+ * @param appId The application identifier (__app_id).
+ * @param userId The signed-in user's UID.
+ * @returns The full Firestore collection path string.
  */
-export async function getFirebaseContext(): Promise<{ db: Firestore, appId: string, userId: string }> {
-  const configAppId = firebaseConfig.appId || firebaseConfig.projectId || 'default-nextjs-app';
-  
-  if (isInitialized && getApps().length > 0) {
-    // If already initialized, return existing instances
-    return {
-        db, 
-        appId: configAppId,
-        userId: auth.currentUser?.uid || 'anonymous-user' 
-    };
-  }
+export function getUserCollectionPath(collectionName: string, appId: string, userId: string): string {
+    const safeAppId = appId || 'default-app-id';
+    return `artifacts/${safeAppId}/users/${userId}/${collectionName}`;
+}
 
+/**
+ * Turns a place into a stable document ID, so a place maps to one document per collection.
+ * The region fields are part of the ID, so two cities with the same name (Springfield, IL and
+ * Springfield, MO) don't overwrite each other; a place without them keeps its name-only ID.
+ * @param place The city name as displayed, plus its country code and region when known (case and surrounding whitespace are ignored).
+ * @returns A document ID without '/', which Firestore doesn't allow.
+ */
+export function getCityDocumentId(place: { cityName: string; countryCode?: string; admin1?: string }): string {
+    return [place.cityName, place.countryCode, place.admin1]
+        .map((part) => part?.toLowerCase().trim())
+        .filter(Boolean)
+        .join('|')
+        .replace(/\//g, '-');
+}
+
+async function initializeFirebaseContext(configAppId: string): Promise<FirebaseContext> {
     // Check for required configuration
   if (!firebaseConfig.apiKey || !firebaseConfig.projectId) {
       console.error("Firebase Initialization Error: API Key or Project ID is missing from environment variables.");
@@ -60,14 +75,12 @@ export async function getFirebaseContext(): Promise<{ db: Firestore, appId: stri
   try {
     
     // 2. Initialize App and Services
-    if (getApps().some((a: FirebaseApp) => a.name === configAppId)) {
-      app = getApp(configAppId);
-    } else {
-      app = initializeApp(firebaseConfig, configAppId);
-    }
+    const app = getApps().some((a: FirebaseApp) => a.name === configAppId)
+      ? getApp(configAppId)
+      : initializeApp(firebaseConfig, configAppId);
     
-    auth = getAuth(app);
-    db = getFirestore(app);
+    const auth = getAuth(app);
+    const db = getFirestore(app);
     
     await signInAnonymously(auth);
     
@@ -76,8 +89,6 @@ export async function getFirebaseContext(): Promise<{ db: Firestore, appId: stri
       throw new Error("Authentication failed: No user is currently signed in.");
     }
     
-    isInitialized = true;
-    
     const userId = auth.currentUser.uid;
     
     // Return the initialized Firestore instance, App ID, and User ID
@@ -88,4 +99,22 @@ export async function getFirebaseContext(): Promise<{ db: Firestore, appId: stri
     // Log the error and re-throw
     throw new Error('Could not connect to database services.');
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Initializes Firebase (if not already done), authenticates the user, and 
+ * returns the Firestore context. This ensures the database connection is a singleton.
+ * Concurrent callers (e.g. the history and favorites subscriptions on page load) share one
+ * initialization, so there is a single anonymous sign-in; a failed attempt is retried on the next call.
+ * @returns {Promise<{db: Firestore, appId: string, userId: string}>} The Firestore instance and necessary context.
+ */
+export function getFirebaseContext(): Promise<FirebaseContext> {
+  if (!contextPromise) {
+    const configAppId = firebaseConfig.appId || firebaseConfig.projectId || 'default-nextjs-app';
+    contextPromise = initializeFirebaseContext(configAppId).catch((error) => {
+      contextPromise = null;
+      throw error;
+    });
+  }
+  return contextPromise;
+}
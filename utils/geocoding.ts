@@ -0,0 +1,386 @@
+import { CacheStore, getTimestampInMs, isCacheTimestamp } from '@/utils/cacheStore';
+import type { GeocodeCandidate } from '@/utils/contract';
+import { geocodeCandidateSchema } from '@/utils/contractSchemas';
+import { readNumberEnv } from '@/utils/env';
+import { NotFoundError, WeatherFetchError } from '@/utils/errors';
+import { DEFAULT_LANGUAGE, WeatherLanguage, parseLanguage } from '@/utils/language';
+import {
+    Schema, array, custom, number, object, optional, parseCached, parseUpstream, string,
+} from '@/utils/schema';
+import { readUpstreamJson, upstreamFetch, upstreamStatusError } from '@/utils/upstream';
+import { logger } from '@/utils/logger';
+
+// --- Geocoding (City Name <-> Lat/Lon) with a long-lived cache ---
+
+export interface GeoLocation {
+    latitude: number;
+    longitude: number;
+    name: string;
+    country: string;
+    countryCode?: string; // ISO 3166-1 alpha-2; missing on entries cached before it was recorded
+    admin1?: string; // First-level region (state, province, ...)
+}
+
+/**
+ * A free-text city name (?city=), optionally narrowed to a country (?country=, ISO 3166-1 alpha-2)
+ * and a first-level region (?admin1=, e.g. a US state).
+ */
+export type CityQuery = { kind: 'city'; city: string; country?: string; admin1?: string };
+
+/**
+ * What a client asked for: a city or GPS coordinates (?lat=&lon=), plus the language (?lang=)
+ * place names are returned in. A missing language means English.
+ */
+export type LocationQuery = (
+    | CityQuery
+    | { kind: 'coordinates'; latitude: number; longitude: number }
+) & { language?: WeatherLanguage };
+
+interface GeocodeCacheEntry<T> {
+    data: T;
+    timestamp: number;
+}
+
+// Subset of the Open-Meteo geocoding response; `results` is left out entirely when nothing matches
+const openMeteoGeocodingSchema = object({
+    results: optional(array(object({
+        name: string,
+        latitude: number,
+        longitude: number,
+        country: optional(string),
+        country_code: optional(string),
+        admin1: optional(string),
+        population: optional(number),
+    }))),
+});
+
+// Subset of the Nominatim reverse geocoding response; at sea there is no address, only an `error` text
+const reverseGeocodingSchema = object({
+    address: optional(object({
+        city: optional(string),
+        town: optional(string),
+        village: optional(string),
+        municipality: optional(string),
+        state: optional(string),
+        country: optional(string),
+        country_code: optional(string), // Lowercase ISO 3166-1 alpha-2
+    })),
+});
+
+// Cached documents are validated on read, like weather_cache entries
+const geoLocationSchema: Schema<GeoLocation> = object({
+    latitude: number,
+    longitude: number,
+    name: string,
+    country: string,
+    countryCode: optional(string),
+    admin1: optional(string),
+});
+
+const candidatesSchema: Schema<GeocodeCandidate[]> = array(geocodeCandidateSchema);
+
+const GEOCODING_API_URL = 'https://geocoding-api.open-meteo.com/v1/search';
+// Open-Meteo has no reverse geocoding, so coordinates are named via OpenStreetMap's Nominatim. Its usage
+// policy asks server-side callers to identify themselves and stay under one request per second, which the
+// long geocode_cache TTL and the coordinate grid keep us well below.
+const REVERSE_GEOCODING_API_URL = 'https://nominatim.openstreetmap.org/reverse';
+const REVERSE_GEOCODING_USER_AGENT = process.env.NOMINATIM_USER_AGENT || process.env.MET_NORWAY_USER_AGENT || 'caching-weather-client/0.1';
+
+// A city's coordinates don't change, so geocoding results are kept for days rather than minutes
+export const GEOCODE_CACHE_TTL_MS = readNumberEnv('GEOCODE_CACHE_TTL_DAYS', 30) * 24 * 60 * 60 * 1000;
+
+// How many candidates /api/geocode returns, and how many are scanned when filtering by ?admin1=
+// (Open-Meteo can only filter by country itself)
+const GEOCODE_CANDIDATE_LIMIT = 10;
+const GEOCODE_ADMIN1_SCAN_LIMIT = 50;
+
+// Coordinates are snapped to this grid (in degrees) so nearby users share one cache entry
+const COORDINATE_GRID_DEG = readNumberEnv('COORDINATE_GRID_DEG', 0.05) || 0.05;
+
+/**
+ * Normalizes a free-text city query into the key used by the cache collections.
+ */
+export function normalizeCityQuery(city: string): string {
+    return city.toLowerCase().trim();
+}
+
+// Number of decimals needed to print a grid-aligned value without float noise: the grid's own
+// decimals (0.25 needs two, although -log10(0.25) rounds up to one)
+function getGridDecimals(): number {
+    const [mantissa, exponent] = String(COORDINATE_GRID_DEG).toLowerCase().split('e');
+    const fractionDigits = mantissa.split('.')[1]?.length ?? 0;
+    return Math.max(0, fractionDigits - Number(exponent ?? 0));
+}
+
+/**
+ * Snaps coordinates to the nearest COORDINATE_GRID_DEG grid point.
+ */
+export function snapToGrid(latitude: number, longitude: number): { latitude: number; longitude: number } {
+    const decimals = getGridDecimals();
+    const snap = (value: number) => Number((Math.round(value / COORDINATE_GRID_DEG) * COORDINATE_GRID_DEG).toFixed(decimals));
+    return { latitude: snap(latitude), longitude: snap(longitude) };
+}
+
+// English stays implicit so its cache keys match the ones from before ?lang= existed
+function parseLanguagePart(searchParams: URLSearchParams): { language?: WeatherLanguage } {
+    const language = parseLanguage(searchParams);
+    return language === DEFAULT_LANGUAGE ? {} : { language };
+}
+
+/**
+ * Builds a city query from a name plus the ?country=, ?admin1= and ?lang= parameters.
+ * @throws WeatherFetchError (400) for a malformed country code or region, or an unsupported language.
+ */
+export function parseCityQuery(city: string, searchParams: URLSearchParams): CityQuery & { language?: WeatherLanguage } {
+    const query: CityQuery & { language?: WeatherLanguage } = { kind: 'city', city, ...parseLanguagePart(searchParams) };
+
+    const country = searchParams.get('country')?.trim();
+    if (country) {
+        if (!/^[A-Za-z]{2}$/.test(country)) {
+            throw new WeatherFetchError('Bad Request: country must be a two-letter ISO 3166-1 code', 400);
+        }
+        query.country = country.toUpperCase();
+    }
+
+    const admin1 = searchParams.get('admin1')?.trim();
+    if (admin1) {
+        if (admin1.length > 100) {
+            throw new WeatherFetchError('Bad Request: admin1 must be at most 100 characters', 400);
+        }
+        query.admin1 = admin1;
+    }
+
+    return query;
+}
+
+/**
+ * Parses ?city= (with its filters) or ?lat=&lon=, and ?lang=, from the request. Coordinates are returned already grid-snapped.
+ * @returns The parsed query, or null if neither form is present.
+ * @throws WeatherFetchError (400) if the coordinates or filters are invalid or the language is unsupported.
+ */
+export function parseLocationQuery(searchParams: URLSearchParams): LocationQuery | null {
+    const city = searchParams.get('city');
+    const lat = searchParams.get('lat');
+    const lon = searchParams.get('lon');
+
+    if (lat !== null || lon !== null) {
+        const latitude = Number(lat);
+        const longitude = Number(lon);
+
+        if (lat === null || lon === null || lat.trim() === '' || lon.trim() === ''
+            || !Number.isFinite(latitude) || !Number.isFinite(longitude)
+            || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+            throw new WeatherFetchError('Bad Request: lat and lon must be valid coordinates', 400);
+        }
+
+        return { kind: 'coordinates', ...snapToGrid(latitude, longitude), ...parseLanguagePart(searchParams) };
+    }
+
+    if (city && city.trim() !== '') {
+        return parseCityQuery(city, searchParams);
+    }
+
+    return null;
+}
+
+/**
+ * Returns the document key for a query; coordinate keys use the snapped grid point.
+ * City filters add |country= and |admin1= parts, and non-English queries a |lang= suffix.
+ */
+export function getLocationCacheKey(query: LocationQuery): string {
+    const languageSuffix = query.language && query.language !== DEFAULT_LANGUAGE ? `|lang=${query.language}` : '';
+    if (query.kind === 'city') {
+        const countryPart = query.country ? `|country=${query.country}` : '';
+        const admin1Part = query.admin1 ? `|admin1=${normalizeCityQuery(query.admin1)}` : '';
+        return `${normalizeCityQuery(query.city)}${countryPart}${admin1Part}${languageSuffix}`;
+    }
+    const decimals = getGridDecimals();
+    return `coords:${query.latitude.toFixed(decimals)},${query.longitude.toFixed(decimals)}${languageSuffix}`;
+}
+
+/**
+ * Human-readable label for log lines and error messages.
+ */
+export function describeLocationQuery(query: LocationQuery): string {
+    if (query.kind === 'coordinates') {
+        return `${query.latitude},${query.longitude}`;
+    }
+    const filters = [query.admin1, query.country].filter(Boolean);
+    return filters.length > 0 ? `${query.city} (${filters.join(', ')})` : query.city;
+}
+
+/**
+ * The region fields of a location that are set, for copying into responses and cache entries
+ * (Firestore rejects undefined values).
+ */
+export function getRegionFields(location: GeoLocation): { countryCode?: string; admin1?: string } {
+    return {
+        ...(location.countryCode ? { countryCode: location.countryCode } : {}),
+        ...(location.admin1 ? { admin1: location.admin1 } : {}),
+    };
+}
+
+// --- geocode_cache helpers (errors and invalid entries are logged and treated as misses) ---
+
+async function readGeocodeCache<T>(store: CacheStore, cacheKey: string, schema: Schema<T>): Promise<GeocodeCacheEntry<T> | null> {
+    try {
+        const entrySchema = object({ data: schema, timestamp: custom<number>(isCacheTimestamp, 'a timestamp') }) as Schema<GeocodeCacheEntry<T>>;
+        const cachedEntry = parseCached(entrySchema, await store.get<unknown>('geocode_cache', cacheKey), 'geocode_cache');
+        if (cachedEntry && (Date.now() - getTimestampInMs(cachedEntry.timestamp)) < GEOCODE_CACHE_TTL_MS) {
+            return { data: cachedEntry.data, timestamp: getTimestampInMs(cachedEntry.timestamp) };
+        }
+    } catch (dbError) {
+        logger.error('Failed to read geocode cache', { cacheKey, store: store.name, error: dbError });
+    }
+    return null;
+}
+
+async function writeGeocodeCache<T>(store: CacheStore, cacheKey: string, data: T, timestamp: number = Date.now()): Promise<void> {
+    try {
+        await store.set<GeocodeCacheEntry<T>>('geocode_cache', cacheKey, { data, timestamp });
+    } catch (dbError) {
+        logger.error('Failed to write geocode cache', { cacheKey, store: store.name, error: dbError });
+    }
+}
+
+// Queries Open-Meteo (country filtering happens upstream, ?admin1= here) and returns the matches in
+// its ranking order.
+async function fetchCityCandidates(query: LocationQuery & CityQuery, limit: number): Promise<GeocodeCandidate[]> {
+    const language = query.language ?? DEFAULT_LANGUAGE;
+    const count = query.admin1 ? GEOCODE_ADMIN1_SCAN_LIMIT : limit;
+    const countryParam = query.country ? `&countryCode=${query.country}` : '';
+    const geocodingFetchUrl = `${GEOCODING_API_URL}?name=${encodeURIComponent(query.city)}&count=${count}&language=${language}${countryParam}&format=json`;
+
+    const geoResponse = await upstreamFetch('geocoding', geocodingFetchUrl);
+    if (!geoResponse.ok) {
+        logger.error('Open-Meteo geocoding request failed', { status: geoResponse.status });
+        throw upstreamStatusError('geocoding', geoResponse.status, 'Bad Gateway: Failed to fetch geocoding data');
+    }
+
+    const geoData = parseUpstream(openMeteoGeocodingSchema, await readUpstreamJson('geocoding', geoResponse), 'geocoding');
+
+    const admin1 = query.admin1 ? normalizeCityQuery(query.admin1) : null;
+    return (geoData.results ?? [])
+        .filter((result) => !admin1 || (result.admin1 && normalizeCityQuery(result.admin1) === admin1))
+        .slice(0, limit)
+        .map((result, index) => ({
+            rank: index + 1,
+            name: result.name,
+            admin1: result.admin1 ?? null,
+            country: result.country ?? '',
+            countryCode: result.country_code ?? '',
+            latitude: result.latitude,
+            longitude: result.longitude,
+            population: result.population ?? null,
+        }));
+}
+
+/**
+ * Resolves a city name (and its filters) to the best-ranked match, reading and writing the 'geocode_cache' collection.
+ * @throws NotFoundError if Open-Meteo has no match for the query.
+ * @throws UpstreamDownError / UpstreamInvalidError if Open-Meteo fails or answers with an unexpected payload.
+ */
+export async function geocodeCity(query: LocationQuery & CityQuery, store: CacheStore): Promise<GeoLocation> {
+    const cacheKey = getLocationCacheKey(query);
+
+    const cached = await readGeocodeCache(store, cacheKey, geoLocationSchema);
+    if (cached) return cached.data;
+
+    const [best] = await fetchCityCandidates(query, 1);
+    if (!best) {
+        throw new NotFoundError(`Not Found: Could not find coordinates for city: ${describeLocationQuery(query)}`);
+    }
+
+    const location: GeoLocation = {
+        latitude: best.latitude,
+        longitude: best.longitude,
+        name: best.name,
+        country: best.country,
+        ...(best.countryCode ? { countryCode: best.countryCode } : {}),
+        ...(best.admin1 ? { admin1: best.admin1 } : {}),
+    };
+
+    await writeGeocodeCache(store, cacheKey, location);
+    return location;
+}
+
+export interface CityCandidates {
+    candidates: GeocodeCandidate[];
+    timestamp: number; // When the list was fetched (for HTTP validators)
+}
+
+// Candidate lists share geocode_cache with single lookups, under their own key prefix
+export const CANDIDATES_KEY_PREFIX = 'candidates:';
+
+export function getCandidatesCacheKey(query: LocationQuery & CityQuery): string {
+    return `${CANDIDATES_KEY_PREFIX}${getLocationCacheKey(query)}`;
+}
+
+/**
+ * Cached candidate list for a city search, or null on a miss.
+ */
+export async function readCachedCityCandidates(query: LocationQuery & CityQuery, store: CacheStore): Promise<CityCandidates | null> {
+    const cached = await readGeocodeCache(store, getCandidatesCacheKey(query), candidatesSchema);
+    return cached ? { candidates: cached.data, timestamp: cached.timestamp } : null;
+}
+
+/**
+ * Fetches up to GEOCODE_CANDIDATE_LIMIT ranked matches and caches the list (an empty list included,
+ * so repeated searches for a misspelling don't go upstream).
+ */
+export async function fetchAndCacheCityCandidates(query: LocationQuery & CityQuery, store: CacheStore): Promise<CityCandidates> {
+    const candidates = await fetchCityCandidates(query, GEOCODE_CANDIDATE_LIMIT);
+    const timestamp = Date.now();
+    await writeGeocodeCache(store, getCandidatesCacheKey(query), candidates, timestamp);
+    return { candidates, timestamp };
+}
+
+/**
+ * Names a (grid-snapped) coordinate pair via reverse geocoding, cached in 'geocode_cache'.
+ * If the lookup fails the coordinates themselves are used as the name, since the
+ * forecast is still valid without a place name.
+ */
+export async function reverseGeocode(latitude: number, longitude: number, store: CacheStore, language: WeatherLanguage = DEFAULT_LANGUAGE): Promise<GeoLocation> {
+    const cacheKey = getLocationCacheKey({ kind: 'coordinates', latitude, longitude, language });
+
+    const cached = await readGeocodeCache(store, cacheKey, geoLocationSchema);
+    if (cached) return cached.data;
+
+    try {
+        // zoom=10 resolves to city level rather than the nearest street
+        const reverseFetchUrl = `${REVERSE_GEOCODING_API_URL}?format=jsonv2&zoom=10&lat=${latitude}&lon=${longitude}&accept-language=${language}`;
+        const reverseResponse = await upstreamFetch('reverse-geocoding', reverseFetchUrl, { 'User-Agent': REVERSE_GEOCODING_USER_AGENT });
+
+        if (!reverseResponse.ok) {
+            throw upstreamStatusError('reverse-geocoding', reverseResponse.status, 'Bad Gateway: Failed to fetch reverse geocoding data');
+        }
+
+        const reverseData = parseUpstream(reverseGeocodingSchema, await readUpstreamJson('reverse-geocoding', reverseResponse), 'reverse-geocoding');
+        const address = reverseData.address ?? {};
+
+        const location: GeoLocation = {
+            latitude,
+            longitude,
+            name: address.city || address.town || address.village || address.municipality || address.state || `${latitude}, ${longitude}`,
+            country: address.country || '',
+            ...(address.country_code ? { countryCode: address.country_code.toUpperCase() } : {}),
+            ...(address.state ? { admin1: address.state } : {}),
+        };
+
+        await writeGeocodeCache(store, cacheKey, location);
+        return location;
+
+    } catch (error) {
+        logger.warn('Reverse geocoding failed, using coordinates as the name', { latitude, longitude, error });
+        return { latitude, longitude, name: `${latitude}, ${longitude}`, country: '' };
+    }
+}
+
+/**
+ * Resolves any location query to coordinates plus a display name.
+ */
+export async function resolveLocation(query: LocationQuery, store: CacheStore): Promise<GeoLocation> {
+    return query.kind === 'city'
+        ? geocodeCity(query, store)
+        : reverseGeocode(query.latitude, query.longitude, store, query.language);
+}
@@ -0,0 +1,96 @@
+import { createHash } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import type { ErrorBody } from '@/utils/contract';
+import { ErrorCode, WeatherFetchError, errorCodeForStatus } from '@/utils/errors';
+
+// --- HTTP Caching Semantics (validators, freshness and cache status headers) ---
+
+export type CacheStatus = 'HIT' | 'MISS' | 'STALE';
+
+export interface CachedResponseOptions {
+    cacheKey: string;
+    timestamp: number; // When the cache entry was written (ms since epoch)
+    ttlMs: number; // Freshness lifetime of the entry
+    cacheStatus: CacheStatus;
+    variant?: string; // Anything else that changes the body for the same entry (e.g., units)
+    headers?: Record<string, string>;
+}
+
+/**
+ * Weak ETag derived from the cache entry identity and timestamp (plus the response variant),
+ * so it only changes when the underlying entry is rewritten.
+ */
+export function buildEtag(cacheKey: string, timestamp: number, variant = ''): string {
+    const digest = createHash('sha1').update(`${cacheKey}|${timestamp}|${variant}`).digest('hex').slice(0, 16);
+    return `W/"${digest}"`;
+}
+
+// If-None-Match takes precedence over If-Modified-Since (RFC 9110, section 13.2.2)
+function isNotModified(request: NextRequest, etag: string, timestamp: number): boolean {
+    const ifNoneMatch = request.headers.get('if-none-match');
+    if (ifNoneMatch) {
+        const candidates = ifNoneMatch.split(',').map((tag) => tag.trim().replace(/^W\//, ''));
+        return candidates.includes('*') || candidates.includes(etag.replace(/^W\//, ''));
+    }
+
+    const ifModifiedSince = request.headers.get('if-modified-since');
+    if (ifModifiedSince) {
+        const since = Date.parse(ifModifiedSince);
+        // HTTP dates have second precision
+        return Number.isFinite(since) && Math.floor(timestamp / 1000) * 1000 <= since;
+    }
+
+    return false;
+}
+
+/**
+ * Returns the JSON body with ETag, Last-Modified, Cache-Control (max-age = remaining TTL),
+ * Age and X-Cache headers, or an empty 304 if the client's validators still match.
+ */
+export function cachedJsonResponse(request: NextRequest, body: unknown, options: CachedResponseOptions): NextResponse {
+    const { cacheKey, timestamp, ttlMs, cacheStatus, variant, headers } = options;
+
+    const etag = buildEtag(cacheKey, timestamp, variant);
+    const ageSeconds = Math.max(0, Math.floor((Date.now() - timestamp) / 1000));
+    const remainingSeconds = Math.max(0, Math.floor(ttlMs / 1000) - ageSeconds);
+
+    const responseHeaders: Record<string, string> = {
+        ...headers,
+        'ETag': etag,
+        'Last-Modified': new Date(timestamp).toUTCString(),
+        // Responses require an API key (and count against its quota), so only the caller's own cache may
+        // keep them; a shared cache would hand them to clients without a key. Stale entries are being
+        // refreshed, so the client should come back right away.
+        'Cache-Control': cacheStatus === 'STALE' ? 'private, max-age=0, must-revalidate' : `private, max-age=${remainingSeconds}`,
+        'Vary': 'X-API-Key, Authorization',
+        'Age': String(ageSeconds),
+        'X-Cache': cacheStatus,
+    };
+
+    if (isNotModified(request, etag, timestamp)) {
+        return new NextResponse(null, { status: 304, headers: responseHeaders });
+    }
+
+    return NextResponse.json(body, { status: 200, headers: responseHeaders });
+}
+
+/**
+ * Error responses must never be cached by clients or CDNs.
+ * @param options.code Defaults to the usual code for `status`.
+ * @param options.headers Extra headers (e.g. Retry-After).
+ */
+export function errorJsonResponse(
+    error: string,
+    status: number,
+    options: { code?: ErrorCode; headers?: Record<string, string> } = {},
+): NextResponse {
+    const body: ErrorBody = { error, code: options.code ?? errorCodeForStatus(status) };
+    return NextResponse.json(body, { status, headers: { ...options.headers, 'Cache-Control': 'no-store' } });
+}
+
+/**
+ * The error response for a WeatherFetchError, keeping its status and code.
+ */
+export function weatherErrorResponse(error: WeatherFetchError): NextResponse {
+    return errorJsonResponse(error.message, error.status, { code: error.code });
+}
@@ -0,0 +1,28 @@
+import { WeatherFetchError } from '@/utils/errors';
+
+// --- Response Language ---
+// ?lang= localizes weather descriptions and is passed to geocoding, whose place names come back
+// in that language. Because the names differ, each language has its own cache entries.
+
+export type WeatherLanguage = 'en' | 'de' | 'fr' | 'es' | 'it';
+
+export const SUPPORTED_LANGUAGES: WeatherLanguage[] = ['en', 'de', 'fr', 'es', 'it'];
+
+export const DEFAULT_LANGUAGE: WeatherLanguage = 'en';
+
+/**
+ * Reads ?lang= (case-insensitive; a region suffix like fr-CH is ignored).
+ * @throws WeatherFetchError (400) for unsupported languages.
+ */
+export function parseLanguage(searchParams: URLSearchParams): WeatherLanguage {
+    const raw = searchParams.get('lang');
+    if (raw === null || raw.trim() === '') {
+        return DEFAULT_LANGUAGE;
+    }
+
+    const language = raw.trim().toLowerCase().split(/[-_]/)[0];
+    if (!SUPPORTED_LANGUAGES.includes(language as WeatherLanguage)) {
+        throw new WeatherFetchError(`Bad Request: lang must be one of ${SUPPORTED_LANGUAGES.join(', ')}`, 400);
+    }
+    return language as WeatherLanguage;
+}
@@ -0,0 +1,163 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+
+// --- Structured JSON Logging with Per-Request Context ---
+// Every line is one JSON object. Inside a request it also carries the request ID, route,
+// cache key, cache outcome, upstream call timings and error class seen so far.
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+type LogFields = Record<string, unknown>;
+
+export interface UpstreamTiming {
+    service: string;
+    durationMs: number;
+    status: string; // HTTP status code, 'timeout' or 'network_error'
+}
+
+interface RequestLogContext {
+    requestId: string;
+    route: string;
+    cacheKey?: string;
+    cacheOutcome?: string;
+    upstream: UpstreamTiming[];
+    errorClass?: string;
+}
+
+export const REQUEST_ID_HEADER = 'x-request-id';
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// LOG_LEVEL: debug, info (default), warn, error or silent
+const MIN_LEVEL = (() => {
+    const configured = (process.env.LOG_LEVEL || 'info').toLowerCase();
+    if (configured === 'silent') return Infinity;
+    return LEVEL_ORDER[configured as LogLevel] ?? LEVEL_ORDER.info;
+})();
+
+// LOG_REDACT: comma-separated field names whose values are masked, matched case-insensitively at any depth
+const REDACTED_FIELDS = new Set(
+    (process.env.LOG_REDACT ?? 'apiKey,authorization,x-api-key,clientId,ip')
+        .split(',').map((field) => field.trim().toLowerCase()).filter(Boolean),
+);
+
+const requestContext = new AsyncLocalStorage<RequestLogContext>();
+
+function redact(value: unknown): unknown {
+    if (Array.isArray(value)) {
+        return value.map(redact);
+    }
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, fieldValue]) => [
+            key,
+            REDACTED_FIELDS.has(key.toLowerCase()) ? '[REDACTED]' : redact(fieldValue),
+        ]));
+    }
+    return value;
+}
+
+// Errors don't survive JSON.stringify, so they're flattened into errorClass / errorMessage
+function serializeFields(fields: LogFields): LogFields {
+    const { error, ...rest } = fields;
+    if (error === undefined) return rest;
+
+    if (error instanceof Error) {
+        return { ...rest, errorClass: error.name, errorMessage: error.message };
+    }
+    return { ...rest, errorClass: 'Unknown', errorMessage: String(error) };
+}
+
+function write(level: LogLevel, message: string, fields: LogFields = {}): void {
+    if (LEVEL_ORDER[level] < MIN_LEVEL) return;
+
+    const context = requestContext.getStore();
+    const serialized = serializeFields(fields);
+
+    // The latest error class seen in a request sticks to it, so the access line reports what failed it
+    if (context && typeof serialized.errorClass === 'string') {
+        context.errorClass = serialized.errorClass;
+    }
+
+    const record = {
+        time: new Date().toISOString(),
+        level,
+        msg: message,
+        ...(context ? redact({ ...context, upstream: context.upstream.length > 0 ? context.upstream : undefined }) as LogFields : {}),
+        ...(redact(serialized) as LogFields),
+    };
+
+    const line = JSON.stringify(record);
+    if (level === 'error' || level === 'warn') {
+        console.error(line);
+    } else {
+        console.log(line);
+    }
+}
+
+export const logger = {
+    debug: (message: string, fields?: LogFields) => write('debug', message, fields),
+    info: (message: string, fields?: LogFields) => write('info', message, fields),
+    warn: (message: string, fields?: LogFields) => write('warn', message, fields),
+    /** Pass the caught value as `error` to get its class and message on the line. */
+    error: (message: string, fields?: LogFields) => write('error', message, fields),
+};
+
+/**
+ * Adds the city key or cache outcome to the current request's context (no-op outside a request).
+ */
+export function annotateRequest(fields: Pick<RequestLogContext, 'cacheKey' | 'cacheOutcome'>): void {
+    const context = requestContext.getStore();
+    if (context) {
+        Object.assign(context, fields);
+    }
+}
+
+/**
+ * Records one upstream call attempt against the current request (no-op outside a request).
+ */
+export function recordUpstreamTiming(timing: UpstreamTiming): void {
+    requestContext.getStore()?.upstream.push(timing);
+}
+
+// Reuse a caller-supplied ID (e.g., from a load balancer) when it looks sane, otherwise mint one
+function resolveRequestId(request: Request): string {
+    const incoming = request.headers.get(REQUEST_ID_HEADER);
+    return incoming && /^[\w.:-]{1,128}$/.test(incoming) ? incoming : randomUUID();
+}
+
+/**
+ * Runs a route handler inside a request log context, returns the request ID in X-Request-Id
+ * and writes one access line per request with its status and duration.
+ */
+export function withRequestLogging<Args extends [Request, ...unknown[]]>(
+    route: string,
+    handler: (...args: Args) => Promise<Response>,
+): (...args: Args) => Promise<Response> {
+    return (...args: Args) => {
+        const [request] = args;
+        const context: RequestLogContext = { requestId: resolveRequestId(request), route, upstream: [] };
+        const start = performance.now();
+
+        return requestContext.run(context, async () => {
+            try {
+                const response = await handler(...args);
+                response.headers.set(REQUEST_ID_HEADER, context.requestId);
+                logger.info('request completed', {
+                    method: request.method,
+                    status: response.status,
+                    durationMs: Math.round(performance.now() - start),
+                    cacheOutcome: context.cacheOutcome ?? response.headers.get('x-cache') ?? undefined,
+                });
+                return response;
+            } catch (error) {
+                logger.error('request failed', {
+                    method: request.method,
+                    status: 500,
+                    durationMs: Math.round(performance.now() - start),
+                    error,
+                });
+                throw error;
+            }
+        });
+    };
+}
@@ -0,0 +1,172 @@
+import { GeoLocation, getRegionFields } from '@/utils/geocoding';
+import type { ProviderWeather, WeatherProvider } from '@/utils/weatherProvider';
+import { logger } from '@/utils/logger';
+import { Infer, array, number, object, optional, parseUpstream, string } from '@/utils/schema';
+import { readUpstreamJson, upstreamFetch, upstreamStatusError } from '@/utils/upstream';
+import { describeWeatherCode, getWeatherCondition } from '@/utils/weatherCodes';
+
+// --- MET Norway Locationforecast (secondary provider) ---
+// Keyless, but its terms require an identifying User-Agent (MET_NORWAY_USER_AGENT).
+const MET_NORWAY_API_URL = 'https://api.met.no/weatherapi/locationforecast/2.0/complete';
+
+// Subset of the Locationforecast 2.0 'complete' response that is used here
+const symbolSummarySchema = optional(object({ summary: object({ symbol_code: string }) }));
+
+const metNorwayResponseSchema = object({
+    properties: object({
+        timeseries: array(object({
+            time: string, // ISO UTC
+            data: object({
+                instant: object({
+                    details: object({
+                        air_temperature: number, // °C
+                        wind_speed: number, // m/s
+                        wind_speed_of_gust: optional(number), // m/s
+                        relative_humidity: number, // %
+                        cloud_area_fraction: number, // %
+                    }),
+                }),
+                next_1_hours: symbolSummarySchema,
+                next_6_hours: symbolSummarySchema,
+            }),
+        }), 1),
+    }),
+});
+
+type MetNorwayResponse = Infer<typeof metNorwayResponseSchema>;
+
+// MET symbol codes (without the _day/_night/_polartwilight suffix) mapped to the closest WMO code,
+// so descriptions match the ones Open-Meteo responses get
+const SYMBOL_TO_WMO: Record<string, number> = {
+    clearsky: 0,
+    fair: 1,
+    partlycloudy: 2,
+    cloudy: 3,
+    fog: 45,
+    lightrain: 61,
+    rain: 63,
+    heavyrain: 65,
+    lightrainshowers: 80,
+    rainshowers: 81,
+    heavyrainshowers: 82,
+    lightsleet: 66,
+    sleet: 67,
+    heavysleet: 67,
+    lightsleetshowers: 66,
+    sleetshowers: 67,
+    heavysleetshowers: 67,
+    lightsnow: 71,
+    snow: 73,
+    heavysnow: 75,
+    lightsnowshowers: 85,
+    snowshowers: 85,
+    heavysnowshowers: 86,
+};
+
+function symbolToWmoCode(symbolCode: string): number {
+    const base = symbolCode.replace(/_(day|night|polartwilight)$/, '');
+    if (base.includes('thunder')) return 95;
+    return SYMBOL_TO_WMO[base] ?? -1;
+}
+
+const MS_TO_KMH = 3.6;
+
+// Apparent temperature (Australian BoM formula, also used by Open-Meteo) from temperature, humidity and wind
+function apparentTemperature(temperature: number, humidity: number, windMs: number): number {
+    const vaporPressure = (humidity / 100) * 6.105 * Math.exp((17.27 * temperature) / (237.7 + temperature));
+    return temperature + 0.33 * vaporPressure - 0.70 * windMs - 4.00;
+}
+
+const DEGREES = Math.PI / 180;
+// Altitude of the sun's centre at sunrise and sunset (refraction plus the sun's radius)
+const SUNRISE_ALTITUDE = -0.833;
+
+// Whether the sun is above the horizon at a place and time (low-precision solar position, good to about a minute)
+function isSunUp(latitude: number, longitude: number, timeMs: number): boolean {
+    const days = timeMs / 86_400_000 - 10_957.5; // Since J2000.0
+    const meanAnomaly = (357.529 + 0.98560028 * days) * DEGREES;
+    const meanLongitude = 280.459 + 0.98564736 * days;
+    const eclipticLongitude = (meanLongitude + 1.915 * Math.sin(meanAnomaly) + 0.020 * Math.sin(2 * meanAnomaly)) * DEGREES;
+    const obliquity = (23.439 - 0.00000036 * days) * DEGREES;
+
+    const rightAscension = Math.atan2(Math.cos(obliquity) * Math.sin(eclipticLongitude), Math.cos(eclipticLongitude));
+    const declination = Math.asin(Math.sin(obliquity) * Math.sin(eclipticLongitude));
+    const siderealDegrees = (18.697374558 + 24.06570982441908 * days) * 15;
+    const hourAngle = (siderealDegrees + longitude) * DEGREES - rightAscension;
+
+    const sinAltitude = Math.sin(latitude * DEGREES) * Math.sin(declination)
+        + Math.cos(latitude * DEGREES) * Math.cos(declination) * Math.cos(hourAngle);
+    return sinAltitude > Math.sin(SUNRISE_ALTITUDE * DEGREES);
+}
+
+// Symbols only carry _day/_night when they look different by day (clearsky, fair, partlycloudy, showers);
+// for the rest (cloudy, rain, fog) and _polartwilight the sun's position decides
+function getIsDay(symbolCode: string, location: GeoLocation, time: string): number {
+    if (symbolCode.endsWith('_day')) return 1;
+    if (symbolCode.endsWith('_night')) return 0;
+    return isSunUp(location.latitude, location.longitude, Date.parse(time)) ? 1 : 0;
+}
+
+function transformWeather(location: GeoLocation, forecast: MetNorwayResponse): ProviderWeather {
+    const timeseries = forecast.properties.timeseries;
+    const now = timeseries[0];
+    const details = now.data.instant.details;
+    const symbolCode = now.data.next_1_hours?.summary.symbol_code ?? now.data.next_6_hours?.summary.symbol_code ?? '';
+    const weatherCode = symbolToWmoCode(symbolCode);
+
+    // There are no calendar-day aggregates, so the high and low cover the next 24 hours
+    const nextDay = timeseries.filter((step) => Date.parse(step.time) - Date.parse(now.time) < 24 * 60 * 60 * 1000);
+    const temperatures = nextDay.map((step) => step.data.instant.details.air_temperature);
+
+    return {
+        cityName: location.name,
+        country: location.country,
+        ...getRegionFields(location),
+        // Temperatures and wind stay unrounded in the cache; they are rounded after unit conversion
+        temperature: details.air_temperature,
+        description: describeWeatherCode(weatherCode),
+        weatherCode,
+        condition: getWeatherCondition(weatherCode),
+        windKmh: details.wind_speed * MS_TO_KMH,
+        lastUpdated: now.time,
+        provider: 'met-norway',
+
+        apparentTemperature: apparentTemperature(details.air_temperature, details.relative_humidity, details.wind_speed),
+        windGusts: (details.wind_speed_of_gust ?? details.wind_speed) * MS_TO_KMH,
+        cloudCover: Math.round(details.cloud_area_fraction),
+        isDay: getIsDay(symbolCode, location, now.time),
+        humidity: Math.round(details.relative_humidity),
+        tempMax: Math.max(...temperatures),
+        tempMin: Math.min(...temperatures),
+    };
+}
+
+async function fetchMetNorwayWeather(location: GeoLocation, userAgent: string): Promise<ProviderWeather> {
+    // MET asks for at most 4 decimals so nearby requests hit its own cache
+    const url = `${MET_NORWAY_API_URL}?lat=${location.latitude.toFixed(4)}&lon=${location.longitude.toFixed(4)}`;
+    const response = await upstreamFetch('met-norway', url, { 'User-Agent': userAgent });
+
+    if (!response.ok) {
+        logger.error('MET Norway forecast request failed', { status: response.status });
+        throw upstreamStatusError('met-norway', response.status, 'Bad Gateway: Failed to fetch weather data');
+    }
+
+    // An empty timeseries is rejected too: there would be no current conditions to report
+    const forecast = parseUpstream(metNorwayResponseSchema, await readUpstreamJson('met-norway', response), 'met-norway');
+
+    return transformWeather(location, forecast);
+}
+
+/**
+ * Secondary provider: one request per location (MET has no multi-location endpoint).
+ * @param userAgent Identifying User-Agent required by MET Norway's terms of service.
+ */
+export function createMetNorwayProvider(userAgent: string): WeatherProvider {
+    return {
+        name: 'met-norway',
+
+        fetchCurrent(locations: GeoLocation[]): Promise<ProviderWeather[]> {
+            return Promise.all(locations.map((location) => fetchMetNorwayWeather(location, userAgent)));
+        },
+    };
+}
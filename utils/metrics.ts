@@ -0,0 +1,185 @@
+import type { CacheStore } from '@/utils/cacheStore';
+
+// --- In-Process Metrics (Prometheus text exposition format) ---
+// Values live in module state, so each server instance reports its own counters since start-up.
+
+type MetricType = 'counter' | 'gauge' | 'histogram';
+type Labels = Record<string, string>;
+
+interface MetricDefinition {
+    type: MetricType;
+    help: string;
+}
+
+// Latency buckets in seconds (Prometheus client defaults)
+const LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+const METRIC_DEFINITIONS = {
+    cache_lookups_total: { type: 'counter', help: 'Cache lookups by store, cache and result (hit, stale, miss or error).' },
+    cache_store_operation_duration_seconds: { type: 'histogram', help: 'Latency of cache store reads and writes.' },
+    cache_store_errors_total: { type: 'counter', help: 'Cache store operations that threw.' },
+    upstream_request_duration_seconds: { type: 'histogram', help: 'Latency of each upstream call attempt (geocoding, reverse-geocoding, forecast).' },
+    upstream_responses_total: { type: 'counter', help: 'Upstream call attempts by HTTP status code, or timeout / network_error.' },
+    upstream_circuit_rejections_total: { type: 'counter', help: 'Upstream calls refused because the circuit breaker was open.' },
+    upstream_circuit_state: { type: 'gauge', help: 'Circuit breaker state per upstream service (0 closed, 1 half-open, 2 open).' },
+    http_responses_total: { type: 'counter', help: 'API responses by route and HTTP status.' },
+    cache_warmer_refreshes_total: { type: 'counter', help: 'Entries the cache warmer refreshed ahead of expiry, by outcome (refreshed or failed).' },
+    schema_validation_failures_total: { type: 'counter', help: 'Upstream payloads and cached entries rejected by their schema, by kind (upstream or cache) and source.' },
+} satisfies Record<string, MetricDefinition>;
+
+export type MetricName = keyof typeof METRIC_DEFINITIONS;
+
+interface HistogramValue {
+    bucketCounts: number[]; // Per-bucket (non-cumulative) counts, aligned with LATENCY_BUCKETS
+    sum: number;
+    count: number;
+}
+
+// metric name -> serialized label set -> value
+const scalarValues = new Map<MetricName, Map<string, number>>();
+const histogramValues = new Map<MetricName, Map<string, HistogramValue>>();
+
+// Label sets are stored in their rendered form so they can be printed as-is
+function serializeLabels(labels: Labels): string {
+    const escape = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+    return Object.keys(labels).sort().map((key) => `${key}="${escape(labels[key])}"`).join(',');
+}
+
+function getSeries<V>(store: Map<MetricName, Map<string, V>>, name: MetricName): Map<string, V> {
+    let series = store.get(name);
+    if (!series) {
+        series = new Map();
+        store.set(name, series);
+    }
+    return series;
+}
+
+export function incrementCounter(name: MetricName, labels: Labels, value = 1): void {
+    const series = getSeries(scalarValues, name);
+    const key = serializeLabels(labels);
+    series.set(key, (series.get(key) ?? 0) + value);
+}
+
+export function setGauge(name: MetricName, labels: Labels, value: number): void {
+    getSeries(scalarValues, name).set(serializeLabels(labels), value);
+}
+
+export function observeHistogram(name: MetricName, labels: Labels, seconds: number): void {
+    const series = getSeries(histogramValues, name);
+    const key = serializeLabels(labels);
+    let histogram = series.get(key);
+    if (!histogram) {
+        histogram = { bucketCounts: new Array(LATENCY_BUCKETS.length).fill(0), sum: 0, count: 0 };
+        series.set(key, histogram);
+    }
+
+    const bucketIndex = LATENCY_BUCKETS.findIndex((bound) => seconds <= bound);
+    if (bucketIndex >= 0) {
+        histogram.bucketCounts[bucketIndex] += 1;
+    }
+    histogram.sum += seconds;
+    histogram.count += 1;
+}
+
+/**
+ * Starts a stopwatch; the returned function gives the elapsed time in seconds.
+ */
+export function startTimer(): () => number {
+    const start = performance.now();
+    return () => (performance.now() - start) / 1000;
+}
+
+function withLabel(serialized: string, extra: string): string {
+    return `{${serialized ? `${serialized},${extra}` : extra}}`;
+}
+
+/**
+ * Renders every recorded metric in the Prometheus text exposition format (version 0.0.4).
+ */
+export function renderMetrics(): string {
+    const lines: string[] = [];
+
+    for (const [name, definition] of Object.entries(METRIC_DEFINITIONS) as [MetricName, MetricDefinition][]) {
+        lines.push(`# HELP ${name} ${definition.help}`);
+        lines.push(`# TYPE ${name} ${definition.type}`);
+
+        if (definition.type !== 'histogram') {
+            scalarValues.get(name)?.forEach((value, labels) => {
+                lines.push(`${name}${labels ? `{${labels}}` : ''} ${value}`);
+            });
+            continue;
+        }
+
+        histogramValues.get(name)?.forEach((histogram, labels) => {
+            let cumulative = 0;
+            LATENCY_BUCKETS.forEach((bound, i) => {
+                cumulative += histogram.bucketCounts[i];
+                lines.push(`${name}_bucket${withLabel(labels, `le="${bound}"`)} ${cumulative}`);
+            });
+            lines.push(`${name}_bucket${withLabel(labels, 'le="+Inf"')} ${histogram.count}`);
+            lines.push(`${name}_sum${labels ? `{${labels}}` : ''} ${histogram.sum}`);
+            lines.push(`${name}_count${labels ? `{${labels}}` : ''} ${histogram.count}`);
+        });
+    }
+
+    return `${lines.join('\n')}\n`;
+}
+
+// --- Instrumentation Helpers ---
+
+export type CacheLookupResult = 'hit' | 'stale' | 'miss' | 'error';
+
+/**
+ * Counts a cache lookup outcome; hit ratio = hit / (hit + stale + miss).
+ */
+export function recordCacheLookup(storeName: string, cache: string, result: CacheLookupResult, count = 1): void {
+    if (count > 0) {
+        incrementCounter('cache_lookups_total', { store: storeName, cache, result }, count);
+    }
+}
+
+/**
+ * Wraps a CacheStore so every read and write is timed, and failures are counted, per store and collection.
+ */
+export function instrumentCacheStore(store: CacheStore): CacheStore {
+    const timed = async <R>(operation: string, collectionName: string, fn: () => Promise<R>): Promise<R> => {
+        const labels = { store: store.name, operation, collection: collectionName };
+        const elapsed = startTimer();
+        try {
+            return await fn();
+        } catch (error) {
+            incrementCounter('cache_store_errors_total', labels);
+            throw error;
+        } finally {
+            observeHistogram('cache_store_operation_duration_seconds', labels, elapsed());
+        }
+    };
+
+    return {
+        name: store.name,
+        get: (collectionName, key) => timed('get', collectionName, () => store.get(collectionName, key)),
+        getMany: (collectionName, keys) => timed('getMany', collectionName, () => store.getMany(collectionName, keys)),
+        set: (collectionName, key, value) => timed('set', collectionName, () => store.set(collectionName, key, value)),
+        list: (collectionName) => timed('list', collectionName, () => store.list(collectionName)),
+        deleteMany: (collectionName, keys) => timed('deleteMany', collectionName, () => store.deleteMany(collectionName, keys)),
+    };
+}
+
+/**
+ * Wraps a route handler so every response (including thrown errors, as 500) is counted by status.
+ */
+export function withRequestMetrics<Args extends unknown[]>(
+    route: string,
+    handler: (...args: Args) => Promise<Response>,
+): (...args: Args) => Promise<Response> {
+    return async (...args: Args) => {
+        try {
+            const response = await handler(...args);
+            incrementCounter('http_responses_total', { route, status: String(response.status) });
+            return response;
+        } catch (error) {
+            incrementCounter('http_responses_total', { route, status: '500' });
+            throw error;
+        }
+    };
+}
@@ -0,0 +1,109 @@
+import { GeoLocation, getRegionFields } from '@/utils/geocoding';
+import type { ProviderWeather, WeatherProvider } from '@/utils/weatherProvider';
+import { logger } from '@/utils/logger';
+import { Infer, array, number, object, oneOf, parseUpstream, string } from '@/utils/schema';
+import { readUpstreamJson, upstreamFetch, upstreamStatusError } from '@/utils/upstream';
+import { describeWeatherCode, getWeatherCondition } from '@/utils/weatherCodes';
+
+// --- Open-Meteo Forecast Request ---
+const WEATHER_API_URL = 'https://api.open-meteo.com/v1/forecast';
+
+const CURRENT_WEATHER_VARS = [
+    'temperature_2m',
+    'apparent_temperature',
+    'is_day',
+    'weather_code',
+    'wind_speed_10m',
+    'wind_gusts_10m',
+    'relative_humidity_2m',
+    'cloud_cover',
+];
+
+// Subset of the Open-Meteo forecast response requested by CURRENT_WEATHER_VARS
+const openMeteoWeatherSchema = object({
+    current: object({
+        time: string,
+        temperature_2m: number,
+        apparent_temperature: number,
+        is_day: oneOf([0, 1]),
+        weather_code: number,
+        wind_speed_10m: number,
+        wind_gusts_10m: number,
+        relative_humidity_2m: number,
+        cloud_cover: number,
+    }),
+    daily: object({
+        temperature_2m_max: array(number, 1),
+        temperature_2m_min: array(number, 1),
+    }),
+});
+
+type OpenMeteoWeatherResult = Infer<typeof openMeteoWeatherSchema>;
+
+// Open-Meteo accepts comma-separated coordinate lists and then answers with one result per location
+function buildWeatherFetchUrl(locations: GeoLocation[]): string {
+    const latitudes = locations.map((l) => l.latitude).join(',');
+    const longitudes = locations.map((l) => l.longitude).join(',');
+    return `${WEATHER_API_URL}?latitude=${latitudes}&longitude=${longitudes}&temperature_unit=celsius&wind_speed_unit=kmh&timezone=auto&current=${CURRENT_WEATHER_VARS.join(',')}&daily=temperature_2m_max,temperature_2m_min`;
+}
+
+// Fetches current conditions for one or more locations; results are in the same order as `locations`
+async function fetchOpenMeteoWeather(locations: GeoLocation[]): Promise<OpenMeteoWeatherResult[]> {
+    const weatherResponse = await upstreamFetch('forecast', buildWeatherFetchUrl(locations));
+
+    if (!weatherResponse.ok) {
+        const errorBody = await weatherResponse.json().catch(() => null);
+        const errorText = errorBody?.reason || 'Failed to retrieve weather data from Open-Meteo.';
+        logger.error('Open-Meteo forecast request failed', { status: weatherResponse.status, reason: errorText });
+        throw upstreamStatusError('forecast', weatherResponse.status, 'Bad Gateway: Failed to fetch weather data');
+    }
+
+    const weatherData = await readUpstreamJson('forecast', weatherResponse);
+    const results = Array.isArray(weatherData) ? weatherData : [weatherData];
+    return parseUpstream(array(openMeteoWeatherSchema, locations.length), results, 'forecast');
+}
+
+// --- Transform ---
+function transformWeather(location: GeoLocation, weatherData: OpenMeteoWeatherResult): ProviderWeather {
+    const current = weatherData.current;
+    const daily = weatherData.daily;
+
+    return {
+        cityName: location.name,
+        country: location.country,
+        ...getRegionFields(location),
+        // Temperatures and wind stay unrounded in the cache; they are rounded after unit conversion
+        temperature: current.temperature_2m,
+        // Map the WMO code to a text description and condition
+        description: describeWeatherCode(current.weather_code),
+        weatherCode: current.weather_code,
+        condition: getWeatherCondition(current.weather_code),
+        windKmh: current.wind_speed_10m,
+        lastUpdated: current.time,
+        provider: 'open-meteo',
+
+        // Apply rounding and null checks for new fields:
+        apparentTemperature: current.apparent_temperature,
+        windGusts: current.wind_gusts_10m,
+        cloudCover: Math.round(current.cloud_cover),
+        isDay: current.is_day,
+        humidity: Math.round(current.relative_humidity_2m),
+        // Use nullish coalescing (?? 0) for daily fields to prevent NaN if missing
+        tempMax: daily.temperature_2m_max[0] ?? 0,
+        tempMin: daily.temperature_2m_min[0] ?? 0,
+    };
+}
+
+/**
+ * Primary provider: one multi-location Open-Meteo call serves any number of locations.
+ */
+export function createOpenMeteoProvider(): WeatherProvider {
+    return {
+        name: 'open-meteo',
+
+        async fetchCurrent(locations: GeoLocation[]): Promise<ProviderWeather[]> {
+            const results = await fetchOpenMeteoWeather(locations);
+            return locations.map((location, index) => transformWeather(location, results[index]));
+        },
+    };
+}
@@ -0,0 +1,159 @@
+import proxyRoutes from '@/proxyRoutes.config';
+import { API_VERSION, TEMPERATURE_UNITS, WIND_SPEED_UNITS } from '@/utils/contract';
+import {
+    batchRequestSchema, batchResponseSchema, errorBodySchema, forecastResponseSchema, geocodeResponseSchema,
+    weatherResponseSchema,
+} from '@/utils/contractSchemas';
+import { SUPPORTED_LANGUAGES } from '@/utils/language';
+import type { JsonSchema } from '@/utils/schema';
+
+// --- OpenAPI 3.1 document for the public API (served at /api/openapi.json) ---
+// Response bodies come from the contract schemas, so the document can't drift from what the routes return.
+
+type OpenApiDocument = Record<string, unknown>;
+
+const ref = (name: string): JsonSchema => ({ $ref: `#/components/schemas/${name}` });
+
+function queryParam(name: string, description: string, schema: JsonSchema = { type: 'string' }, required = false) {
+    return { name, in: 'query', required, description, schema };
+}
+
+const locationParams = [
+    queryParam('city', 'City name. Either city or lat and lon is required.'),
+    queryParam('country', 'Narrows a city search to an ISO 3166-1 alpha-2 country code.', { type: 'string', pattern: '^[A-Za-z]{2}$' }),
+    queryParam('admin1', 'Narrows a city search to a first-level region (state, province, ...).', { type: 'string', maxLength: 100 }),
+    queryParam('lat', 'Latitude, snapped to the cache grid.', { type: 'number', minimum: -90, maximum: 90 }),
+    queryParam('lon', 'Longitude, snapped to the cache grid.', { type: 'number', minimum: -180, maximum: 180 }),
+];
+
+const unitParams = [
+    queryParam('units', 'Unit preset.', { enum: ['metric', 'imperial'], default: 'metric' }),
+    queryParam('temperature_unit', 'Overrides the preset temperature unit.', { enum: [...TEMPERATURE_UNITS] }),
+    queryParam('wind_speed_unit', 'Overrides the preset wind speed unit.', { enum: [...WIND_SPEED_UNITS] }),
+];
+
+const languageParam = queryParam('lang', 'Language of descriptions and place names.', { enum: [...SUPPORTED_LANGUAGES], default: 'en' });
+
+function jsonContent(schema: JsonSchema) {
+    return { 'application/json': { schema } };
+}
+
+function errorResponses(...statuses: number[]) {
+    const descriptions: Record<number, string> = {
+        400: 'Invalid parameters',
+        401: 'Missing API key',
+        403: 'Invalid or disabled API key',
+        404: 'Location not found',
+        429: 'Rate limit or daily quota exceeded (see Retry-After)',
+        502: 'Upstream failed or returned an unexpected response',
+        503: 'Cache or key store unavailable, or upstream circuit open',
+    };
+    return Object.fromEntries(statuses.map((status) => [
+        String(status),
+        { description: descriptions[status], content: jsonContent(ref('ErrorBody')) },
+    ]));
+}
+
+const cachedHeaders = {
+    ETag: { schema: { type: 'string' } },
+    'X-Cache': { description: 'HIT, MISS or STALE', schema: { type: 'string' } },
+};
+
+function weatherOperation(deprecated: boolean) {
+    return {
+        get: {
+            summary: 'Current conditions for a city or coordinates',
+            ...(deprecated ? { deprecated: true, description: `Unversioned alias of /api/${API_VERSION}/weather.` } : {}),
+            parameters: [...locationParams, ...unitParams, languageParam],
+            responses: {
+                200: { description: 'Current conditions', headers: cachedHeaders, content: jsonContent(ref('WeatherResponse')) },
+                304: { description: 'Not modified (If-None-Match)' },
+                ...errorResponses(400, 401, 403, 404, 429, 502, 503),
+            },
+        },
+    };
+}
+
+function proxyPaths() {
+    return Object.fromEntries(proxyRoutes.map((route) => [`/api/proxy/${route.path}`, {
+        get: {
+            summary: `Cached proxy for ${new URL(route.upstream).host}`,
+            parameters: route.cacheKeyParams.map((param) => queryParam(param, 'Forwarded to the upstream.', { type: 'string' }, true)),
+            responses: {
+                200: { description: `Upstream response, cached for ${route.ttlSeconds}s`, headers: cachedHeaders, content: jsonContent({}) },
+                ...errorResponses(400, 401, 403, 429, 502, 503),
+            },
+        },
+    }]));
+}
+
+/**
+ * Builds the OpenAPI document from the contract schemas and the proxy route config.
+ */
+export function buildOpenApiDocument(): OpenApiDocument {
+    return {
+        openapi: '3.1.0',
+        info: {
+            title: 'Caching Weather API',
+            version: API_VERSION,
+            description: 'Weather, forecast and geocoding served through a shared cache. Every error body is an ErrorBody.',
+        },
+        security: [{ apiKey: [] }],
+        paths: {
+            [`/api/${API_VERSION}/weather`]: weatherOperation(false),
+            '/api/weather': weatherOperation(true),
+            '/api/weather/batch': {
+                post: {
+                    summary: 'Current conditions for several locations in one call',
+                    description: 'Each item counts against the daily quota and carries its own status.',
+                    parameters: [...unitParams, languageParam],
+                    requestBody: { required: true, content: jsonContent(ref('BatchRequest')) },
+                    responses: {
+                        200: { description: 'One result per item, in request order', content: jsonContent(ref('BatchResponse')) },
+                        ...errorResponses(400, 401, 403, 429, 503),
+                    },
+                },
+            },
+            '/api/forecast': {
+                get: {
+                    summary: '7-day and 48-hour forecast',
+                    parameters: [...locationParams, ...unitParams, languageParam],
+                    responses: {
+                        200: { description: 'Forecast', headers: cachedHeaders, content: jsonContent(ref('ForecastResponse')) },
+                        304: { description: 'Not modified (If-None-Match)' },
+                        ...errorResponses(400, 401, 403, 404, 429, 502, 503),
+                    },
+                },
+            },
+            '/api/geocode': {
+                get: {
+                    summary: 'Ranked candidates for a city name',
+                    parameters: [
+                        queryParam('q', 'City name to search for.', { type: 'string' }, true),
+                        ...locationParams.filter((param) => param.name === 'country' || param.name === 'admin1'),
+                        languageParam,
+                    ],
+                    responses: {
+                        200: { description: 'Up to 10 candidates; no match is an empty list', headers: cachedHeaders, content: jsonContent(ref('GeocodeResponse')) },
+                        304: { description: 'Not modified (If-None-Match)' },
+                        ...errorResponses(400, 401, 403, 429, 502, 503),
+                    },
+                },
+            },
+            ...proxyPaths(),
+        },
+        components: {
+            securitySchemes: {
+                apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+            },
+            schemas: {
+                WeatherResponse: weatherResponseSchema.jsonSchema,
+                ForecastResponse: forecastResponseSchema.jsonSchema,
+                GeocodeResponse: geocodeResponseSchema.jsonSchema,
+                BatchRequest: batchRequestSchema.jsonSchema,
+                BatchResponse: batchResponseSchema.jsonSchema,
+                ErrorBody: errorBodySchema.jsonSchema,
+            },
+        },
+    };
+}
@@ -0,0 +1,161 @@
+import { CacheStore, createCacheStore } from '@/utils/cacheStore';
+import { readNumberEnv } from '@/utils/env';
+import { LocationQuery, getLocationCacheKey } from '@/utils/geocoding';
+import { SUPPORTED_LANGUAGES } from '@/utils/language';
+import { logger } from '@/utils/logger';
+import { Schema, custom, number, object, oneOf, optional, parseCached, string } from '@/utils/schema';
+
+// --- Request Popularity (per weather cacheKey, read by the cache warmer) ---
+// Counts are buffered per server process and merged into the 'request_counts' collection
+// at most every POPULARITY_FLUSH_INTERVAL_MS, so a request doesn't cost an extra store write.
+
+export const REQUEST_COUNTS_COLLECTION = 'request_counts';
+
+const FLUSH_INTERVAL_MS = readNumberEnv('POPULARITY_FLUSH_INTERVAL_MS', 10 * 1000);
+
+export interface RequestCountRecord {
+    /** What to look up when the entry is refreshed (the cacheKey alone can't be reversed). */
+    query: LocationQuery;
+    count: number;
+    lastRequestedAt: number; // ms since epoch
+}
+
+interface PendingCount {
+    query: LocationQuery;
+    count: number;
+    lastRequestedAt: number;
+}
+
+// Stored queries drive what the warmer fetches, so they are checked like any other cached document
+const language = optional(oneOf(SUPPORTED_LANGUAGES));
+const cityQuerySchema = object({ kind: oneOf(['city'] as const), city: string, country: optional(string), admin1: optional(string), language });
+const coordinatesQuerySchema = object({ kind: oneOf(['coordinates'] as const), latitude: number, longitude: number, language });
+
+function matches(valueSchema: Schema<unknown>, value: unknown): boolean {
+    try {
+        valueSchema(value);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+const requestCountRecordSchema: Schema<RequestCountRecord> = object({
+    query: custom<LocationQuery>(
+        (value) => matches(cityQuerySchema, value) || matches(coordinatesQuerySchema, value),
+        'a city or coordinates query',
+    ),
+    count: number,
+    lastRequestedAt: number,
+});
+
+let popularityStoreInstance: CacheStore | null = null;
+
+// REQUEST_COUNTS_STORE selects where the counts live: memory (default) or file. The routes reach
+// Firestore through the unauthenticated client SDK, so anyone could plant records the warmer acts on;
+// it (like any unknown value) falls back to memory.
+function getPopularityStore(): CacheStore {
+    if (!popularityStoreInstance) {
+        const kind = (process.env.REQUEST_COUNTS_STORE || 'memory').toLowerCase();
+        if (kind !== 'memory' && kind !== 'file') {
+            logger.error('Request counts must be kept in memory or file, falling back to memory', { setting: 'REQUEST_COUNTS_STORE', kind });
+        }
+        popularityStoreInstance = createCacheStore(kind === 'file' ? 'file' : 'memory', 'REQUEST_COUNTS_STORE');
+    }
+    return popularityStoreInstance;
+}
+
+const pendingCounts = new Map<string, PendingCount>();
+let lastFlushAt = Date.now();
+let flushInProgress: Promise<void> | null = null;
+
+/**
+ * Counts one request for the cacheKey (in memory until the next flush).
+ */
+export function trackRequest(cacheKey: string, query: LocationQuery): void {
+    const pending = pendingCounts.get(cacheKey);
+    if (pending) {
+        pending.count += 1;
+        pending.lastRequestedAt = Date.now();
+    } else {
+        pendingCounts.set(cacheKey, { query, count: 1, lastRequestedAt: Date.now() });
+    }
+}
+
+/**
+ * True once the buffered counts are due to be written (callers schedule the flush with after()).
+ */
+export function isRequestCountFlushDue(): boolean {
+    return pendingCounts.size > 0 && !flushInProgress && Date.now() - lastFlushAt >= FLUSH_INTERVAL_MS;
+}
+
+/**
+ * Merges the buffered counts into the store. Updates are read-then-write, so instances
+ * flushing the same key at the same moment may lose a few counts, which is fine for ranking.
+ * Failures are logged and the counts are put back for the next flush.
+ */
+export function flushRequestCounts(): Promise<void> {
+    if (flushInProgress) {
+        return flushInProgress;
+    }
+
+    const batch = new Map(pendingCounts);
+    pendingCounts.clear();
+    lastFlushAt = Date.now();
+
+    if (batch.size === 0) {
+        return Promise.resolve();
+    }
+
+    const store = getPopularityStore();
+    flushInProgress = (async () => {
+        try {
+            const saved = await store.getMany<RequestCountRecord>(REQUEST_COUNTS_COLLECTION, Array.from(batch.keys()));
+            await Promise.all(Array.from(batch, ([cacheKey, pending]) => store.set<RequestCountRecord>(REQUEST_COUNTS_COLLECTION, cacheKey, {
+                query: pending.query,
+                count: (saved.get(cacheKey)?.count ?? 0) + pending.count,
+                lastRequestedAt: pending.lastRequestedAt,
+            })));
+        } catch (error) {
+            logger.error('Failed to flush request counts', { keys: batch.size, store: store.name, error });
+            for (const [cacheKey, pending] of batch) {
+                const current = pendingCounts.get(cacheKey);
+                pendingCounts.set(cacheKey, current
+                    ? { query: pending.query, count: current.count + pending.count, lastRequestedAt: current.lastRequestedAt }
+                    : pending);
+            }
+        } finally {
+            flushInProgress = null;
+        }
+    })();
+
+    return flushInProgress;
+}
+
+/**
+ * Most requested cache keys, highest count first, ignoring keys idle for longer than `maxIdleMs`.
+ * Records that fail validation are skipped, and each key is rebuilt from its query, so a record
+ * can't make the warmer write one location's weather under another location's key.
+ */
+export async function getTopRequested(limit: number, maxIdleMs: number): Promise<(RequestCountRecord & { cacheKey: string })[]> {
+    const records = await getPopularityStore().list<unknown>(REQUEST_COUNTS_COLLECTION);
+    const cutoff = Date.now() - maxIdleMs;
+
+    const valid: (RequestCountRecord & { cacheKey: string })[] = [];
+    for (const [storedKey, value] of records) {
+        const record = parseCached(requestCountRecordSchema, value, REQUEST_COUNTS_COLLECTION);
+        if (!record) continue;
+
+        const cacheKey = getLocationCacheKey(record.query);
+        if (cacheKey !== storedKey) {
+            logger.warn('Ignoring request count stored under a different key than its query', { storedKey, cacheKey });
+            continue;
+        }
+        valid.push({ ...record, cacheKey });
+    }
+
+    return valid
+        .filter((record) => record.lastRequestedAt >= cutoff)
+        .sort((a, b) => b.count - a.count)
+        .slice(0, limit);
+}
@@ -0,0 +1,25 @@
+import { WeatherFetchError } from '@/utils/errors';
+
+// --- Query Param Parsers for proxied routes (see `params` in proxyRoutes.config.ts) ---
+// A parser returns the canonical form of a value, which is what goes into both the cache key and
+// the upstream URL, so spellings of the same request ('48.85' and '48.850') share one entry.
+
+export type ProxyParamParser = (value: string, name: string) => string;
+
+/**
+ * A decimal number within [-limit, limit], rounded to `decimals` places (4 is about 11 m of latitude).
+ * @throws WeatherFetchError (400) for anything else.
+ */
+export function coordinateParam(limit: number, decimals = 4): ProxyParamParser {
+    return (value, name) => {
+        const parsed = Number(value);
+        if (!Number.isFinite(parsed) || Math.abs(parsed) > limit) {
+            throw new WeatherFetchError(`Bad Request: ${name} must be a number between -${limit} and ${limit}`, 400);
+        }
+        // Number() again drops trailing zeros and turns -0 into 0
+        return String(Number(parsed.toFixed(decimals)) || 0);
+    };
+}
+
+export const latitudeParam = coordinateParam(90);
+export const longitudeParam = coordinateParam(180);
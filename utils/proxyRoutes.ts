@@ -0,0 +1,122 @@
+import proxyRoutes from '@/proxyRoutes.config';
+import { CacheStore, isCacheTimestamp } from '@/utils/cacheStore';
+import { NotFoundError, UpstreamDownError, UpstreamInvalidError, WeatherFetchError } from '@/utils/errors';
+import { logger } from '@/utils/logger';
+import type { ProxyParamParser } from '@/utils/proxyParams';
+import { Schema, custom, parseUpstream } from '@/utils/schema';
+import { UpstreamService, readUpstreamJson, upstreamFetch } from '@/utils/upstream';
+
+// --- Declarative Caching Proxy (routes come from proxyRoutes.config.ts) ---
+
+export interface ProxyRouteConfig<T = unknown> {
+    /** Served at /api/proxy/{path}; may contain slashes (e.g., 'open-meteo/elevation'). */
+    path: string;
+    /** Upstream URL with {param} placeholders, filled (URL-encoded) from the request's query string. */
+    upstream: string;
+    /** Query params that form the cache key. All of them are required; other params are ignored. */
+    cacheKeyParams: string[];
+    /** Optional parser per cache-key param that validates it and returns its canonical form (utils/proxyParams.ts). */
+    params?: Record<string, ProxyParamParser>;
+    ttlSeconds: number;
+    /** Checked before the transform runs; a mismatch is a 502 upstream-invalid, like any other upstream. */
+    schema?: Schema<T>;
+    /** Reshapes the validated upstream JSON before it is cached and returned (a method, so routes with different T share one array). */
+    transform?(body: T): unknown;
+}
+
+export interface ProxyCacheEntry {
+    data: unknown;
+    timestamp: number;
+}
+
+export interface ProxyRequest {
+    cacheKey: string;
+    upstreamUrl: string;
+}
+
+export const PROXY_CACHE_COLLECTION = 'proxy_cache';
+
+// Bodies are whatever the route's transform produced, so only the envelope is checked
+export const proxyCacheEntrySchema: Schema<ProxyCacheEntry> = custom<ProxyCacheEntry>(
+    (value) => typeof value === 'object' && value !== null && 'data' in value && 'timestamp' in value && isCacheTimestamp(value.timestamp),
+    'a proxy cache entry',
+);
+
+/**
+ * Looks up the configured route for a path under /api/proxy/.
+ */
+export function findProxyRoute(path: string): ProxyRouteConfig | null {
+    return proxyRoutes.find((route) => route.path === path) ?? null;
+}
+
+/**
+ * Builds the cache key (path plus the cache-key params, in config order) and the upstream URL.
+ * @throws WeatherFetchError (400) if a cache-key param is missing or its parser rejects it.
+ */
+export function buildProxyRequest(route: ProxyRouteConfig, searchParams: URLSearchParams): ProxyRequest {
+    const values: Record<string, string> = {};
+    for (const param of route.cacheKeyParams) {
+        const value = searchParams.get(param);
+        if (value === null || value.trim() === '') {
+            throw new WeatherFetchError(`Bad Request: Missing ${param} parameter`, 400);
+        }
+        const parse = route.params?.[param];
+        values[param] = parse ? parse(value.trim(), param) : value.trim();
+    }
+
+    const upstreamUrl = route.upstream.replace(/\{(\w+)\}/g, (placeholder, param: string) =>
+        param in values ? encodeURIComponent(values[param]) : placeholder);
+
+    // Document IDs can't contain '/', so path separators become ':' and values are URL-encoded
+    // (which also keeps a '|' or '=' inside a value from forging another key)
+    const cacheKey = [
+        route.path.replace(/\//g, ':'),
+        ...route.cacheKeyParams.map((param) => `${param}=${encodeURIComponent(values[param])}`),
+    ].join('|');
+
+    return { cacheKey, upstreamUrl };
+}
+
+/**
+ * Fetches the upstream, validates and transforms the body and writes the result to 'proxy_cache'.
+ * An upstream 404 stays a 404. Any other upstream 4xx means the request we built was wrong, not the
+ * client's, so it is a 502 upstream-invalid, as is a body the schema or transform rejects; 5xx is upstream-down.
+ */
+export async function fetchAndCacheProxied(route: ProxyRouteConfig, proxyRequest: ProxyRequest, store: CacheStore): Promise<ProxyCacheEntry> {
+    const service: UpstreamService = `proxy:${route.path}`;
+    const response = await upstreamFetch(service, proxyRequest.upstreamUrl);
+
+    if (!response.ok) {
+        logger.error('Proxied upstream request failed', { proxyRoute: route.path, status: response.status });
+        if (response.status === 404) {
+            throw new NotFoundError('Not Found: The upstream has no data for this request');
+        }
+        if (response.status >= 400 && response.status < 500) {
+            throw new WeatherFetchError(`Bad Gateway: Upstream rejected the request (status ${response.status})`, 502, 'upstream-invalid');
+        }
+        throw new UpstreamDownError('Bad Gateway: Failed to fetch upstream data');
+    }
+
+    const raw = await readUpstreamJson(service, response);
+    const body = route.schema ? parseUpstream(route.schema, raw, service) : raw;
+
+    let data: unknown = body;
+    if (route.transform) {
+        try {
+            data = route.transform(body);
+        } catch (error) {
+            // A transform without a schema (or reading more than its schema checks) fails on odd payloads
+            logger.error('Proxy transform failed', { proxyRoute: route.path, error });
+            throw new UpstreamInvalidError(service, '');
+        }
+    }
+    const entry: ProxyCacheEntry = { data, timestamp: Date.now() };
+
+    try {
+        await store.set(PROXY_CACHE_COLLECTION, proxyRequest.cacheKey, entry);
+    } catch (dbError) {
+        logger.error('Failed to write proxy cache', { cacheKey: proxyRequest.cacheKey, store: store.name, error: dbError });
+    }
+
+    return entry;
+}
@@ -0,0 +1,184 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { readNumberEnv } from '@/utils/env';
+import { errorJsonResponse } from '@/utils/httpCache';
+import { logger } from '@/utils/logger';
+import type { AuthenticatedKey } from '@/utils/apiKeys';
+
+// --- Per-Client Token-Bucket Rate Limiting ---
+// Cache hits and cache misses draw from separate buckets: misses cost upstream quota,
+// so they get a much smaller budget than hits. Buckets live in each server process's memory,
+// so with several instances a client can get up to one full budget per instance.
+
+export type RateLimitKind = 'hit' | 'miss';
+
+interface BucketLimits {
+    capacity: number; // Maximum burst size
+    refillPerSecond: number; // Sustained rate
+}
+
+interface BucketState {
+    tokens: number;
+    updatedAt: number; // ms since epoch
+}
+
+export interface RateLimitDecision {
+    allowed: boolean;
+    remaining: number;
+    retryAfterSeconds: number;
+}
+
+/**
+ * Where bucket state lives (per server process).
+ */
+export interface RateLimiterStore {
+    load(bucketKey: string): Promise<BucketState | null>;
+    /**
+     * @param fullInMs When the bucket will have refilled to capacity; from then on it is the same as
+     * no bucket at all, so a store may drop it.
+     */
+    save(bucketKey: string, state: BucketState, fullInMs: number): Promise<void>;
+}
+
+const LIMITS: Record<RateLimitKind, BucketLimits> = {
+    hit: {
+        capacity: readNumberEnv('RATE_LIMIT_HIT_CAPACITY', 120),
+        refillPerSecond: readNumberEnv('RATE_LIMIT_HIT_REFILL_PER_SEC', 2),
+    },
+    miss: {
+        capacity: readNumberEnv('RATE_LIMIT_MISS_CAPACITY', 20),
+        refillPerSecond: readNumberEnv('RATE_LIMIT_MISS_REFILL_PER_SEC', 0.2),
+    },
+};
+
+// How many saves the memory store takes between sweeps for refilled buckets
+const MEMORY_SWEEP_INTERVAL = 1000;
+
+/**
+ * Buckets in a Map, dropped once they have refilled (so callers who stop, or spoof a new ID on every
+ * request, don't grow it without limit).
+ */
+export function createMemoryRateLimiterStore(): RateLimiterStore {
+    const buckets = new Map<string, { state: BucketState; fullAt: number }>();
+    let savesSinceSweep = 0;
+
+    const sweep = (now: number) => {
+        buckets.forEach((bucket, bucketKey) => {
+            if (bucket.fullAt <= now) buckets.delete(bucketKey);
+        });
+    };
+
+    return {
+        async load(bucketKey) {
+            return buckets.get(bucketKey)?.state ?? null;
+        },
+        async save(bucketKey, state, fullInMs) {
+            const now = Date.now();
+            buckets.set(bucketKey, { state, fullAt: now + fullInMs });
+
+            savesSinceSweep += 1;
+            if (savesSinceSweep >= MEMORY_SWEEP_INTERVAL) {
+                savesSinceSweep = 0;
+                sweep(now);
+            }
+        },
+    };
+}
+
+let rateLimiterStoreInstance: RateLimiterStore | null = null;
+
+// The routes only reach Firestore through the public client config, where any client could reset its
+// own bucket, so there is no shared backend: every instance enforces the limits on its own
+function getRateLimiterStore(): RateLimiterStore {
+    if (!rateLimiterStoreInstance) {
+        rateLimiterStoreInstance = createMemoryRateLimiterStore();
+    }
+    return rateLimiterStoreInstance;
+}
+
+// Proxies in front of the app that append to X-Forwarded-For (1 for a typical load balancer or
+// Vercel). Everything left of their entries was written by the client and can't be trusted.
+const TRUSTED_PROXY_HOPS = readNumberEnv('TRUSTED_PROXY_HOPS', 1);
+
+// Set when the proxy in front of the app overwrites X-Real-IP (e.g. nginx); otherwise the client sets it
+const TRUST_X_REAL_IP = process.env.TRUST_X_REAL_IP === 'true';
+
+// The address a trusted proxy recorded, or 'unknown' (one shared bucket) when none did
+function getClientIp(request: NextRequest): string {
+    if (TRUST_X_REAL_IP) {
+        const realIp = request.headers.get('x-real-ip')?.trim();
+        if (realIp) return realIp;
+    }
+    if (TRUSTED_PROXY_HOPS < 1) {
+        return 'unknown';
+    }
+    const hops = (request.headers.get('x-forwarded-for') ?? '').split(',').map((hop) => hop.trim()).filter(Boolean);
+    const forwardedFor = hops.length >= TRUSTED_PROXY_HOPS ? hops[hops.length - TRUSTED_PROXY_HOPS] : undefined;
+    return forwardedFor || 'unknown';
+}
+
+/**
+ * Identifies the caller: the API key when there is one, otherwise the client IP. A public key is
+ * readable by anyone from the page bundle, so each IP using it gets its own buckets.
+ */
+export function getClientId(request: NextRequest, key: AuthenticatedKey | null): string {
+    const ip = getClientIp(request);
+
+    if (key && key.public) {
+        return `key:${key.id}|ip:${ip}`;
+    }
+    if (key) {
+        return `key:${key.id}`;
+    }
+    return `ip:${ip}`;
+}
+
+/**
+ * Takes `cost` tokens from the client's bucket for this kind of request.
+ * Store failures are logged and the request is let through, so the limiter never takes the proxy down.
+ */
+export async function consumeRateLimit(clientId: string, kind: RateLimitKind, cost = 1): Promise<RateLimitDecision> {
+    if (process.env.RATE_LIMIT_DISABLED === 'true' || cost <= 0) {
+        return { allowed: true, remaining: Infinity, retryAfterSeconds: 0 };
+    }
+
+    const { capacity, refillPerSecond } = LIMITS[kind];
+    const bucketKey = `${kind}:${clientId}`;
+    const store = getRateLimiterStore();
+    const now = Date.now();
+
+    try {
+        const saved = await store.load(bucketKey);
+
+        // Refill for the time elapsed since the last update, capped at the bucket size
+        const elapsedSeconds = saved ? Math.max(0, now - saved.updatedAt) / 1000 : 0;
+        const available = saved ? Math.min(capacity, saved.tokens + elapsedSeconds * refillPerSecond) : capacity;
+
+        const fullInMs = (tokens: number) => (refillPerSecond > 0 ? ((capacity - tokens) / refillPerSecond) * 1000 : Infinity);
+
+        if (available < cost) {
+            const deficit = cost - available;
+            const retryAfterSeconds = refillPerSecond > 0 ? Math.ceil(deficit / refillPerSecond) : 60;
+            await store.save(bucketKey, { tokens: available, updatedAt: now }, fullInMs(available));
+            return { allowed: false, remaining: Math.floor(available), retryAfterSeconds };
+        }
+
+        await store.save(bucketKey, { tokens: available - cost, updatedAt: now }, fullInMs(available - cost));
+        return { allowed: true, remaining: Math.floor(available - cost), retryAfterSeconds: 0 };
+
+    } catch (error) {
+        logger.error('Failed to update rate limit bucket, letting the request through', { bucketKey, error });
+        return { allowed: true, remaining: 0, retryAfterSeconds: 0 };
+    }
+}
+
+export function rateLimitedResponse(decision: RateLimitDecision, kind: RateLimitKind): NextResponse {
+    const error = kind === 'miss'
+        ? 'Too Many Requests: Upstream lookup limit reached, try a cached city or retry later'
+        : 'Too Many Requests: Rate limit reached';
+    return errorJsonResponse(error, 429, {
+        headers: {
+            'Retry-After': String(decision.retryAfterSeconds),
+            'X-RateLimit-Remaining': String(decision.remaining),
+        },
+    });
+}
@@ -0,0 +1,12 @@
+import { withRequestLogging } from '@/utils/logger';
+import { withRequestMetrics } from '@/utils/metrics';
+
+/**
+ * Wraps an API route handler with request logging (X-Request-Id, access line) and response metrics.
+ */
+export function instrumentRoute<Args extends [Request, ...unknown[]]>(
+    route: string,
+    handler: (...args: Args) => Promise<Response>,
+): (...args: Args) => Promise<Response> {
+    return withRequestLogging(route, withRequestMetrics(route, handler));
+}
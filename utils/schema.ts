@@ -0,0 +1,138 @@
+import { UpstreamInvalidError } from '@/utils/errors';
+import { logger } from '@/utils/logger';
+import { incrementCounter } from '@/utils/metrics';
+
+// --- Runtime Schemas for upstream payloads, cached documents and the public API contract ---
+// A schema checks an unknown value and returns it with its static type, or throws SchemaError
+// naming the first field that doesn't match. Objects are checked field by field and returned as
+// they are (unknown extra fields are kept), so a schema only needs to list what the code reads.
+// Every schema also carries its JSON Schema form, which the OpenAPI document is generated from.
+
+export class SchemaError extends Error {
+    constructor(public readonly path: string, expected: string) {
+        super(`${path || 'value'}: expected ${expected}`);
+        this.name = 'SchemaError';
+    }
+}
+
+export type JsonSchema = Record<string, unknown>;
+
+export interface Schema<T> {
+    (value: unknown, path?: string): T;
+    readonly jsonSchema: JsonSchema;
+    readonly isOptional?: boolean; // Set by optional(), so object() can leave the key out of `required`
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+function schema<T>(check: (value: unknown, path: string) => T, jsonSchema: JsonSchema, isOptional = false): Schema<T> {
+    return Object.assign((value: unknown, path = '') => check(value, path), { jsonSchema, isOptional });
+}
+
+/** A finite number (NaN and Infinity are rejected, since they would be cached and served as-is). */
+export const number: Schema<number> = schema((value, path) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) throw new SchemaError(path, 'a finite number');
+    return value;
+}, { type: 'number' });
+
+export const string: Schema<string> = schema((value, path) => {
+    if (typeof value !== 'string') throw new SchemaError(path, 'a string');
+    return value;
+}, { type: 'string' });
+
+export function oneOf<T extends string | number>(values: readonly T[]): Schema<T> {
+    return schema((value, path) => {
+        if (!values.includes(value as T)) throw new SchemaError(path, `one of ${values.join(', ')}`);
+        return value as T;
+    }, { enum: [...values] });
+}
+
+/**
+ * Any value accepted by `check`, for shapes the combinators don't cover (e.g. Firestore Timestamps).
+ * @param jsonSchema How the value is described in the OpenAPI document.
+ */
+export function custom<T>(check: (value: unknown) => boolean, expected: string, jsonSchema: JsonSchema = {}): Schema<T> {
+    return schema((value, path) => {
+        if (!check(value)) throw new SchemaError(path, expected);
+        return value as T;
+    }, jsonSchema);
+}
+
+export function optional<T>(inner: Schema<T>): Schema<T | undefined> {
+    return schema((value, path) => (value === undefined ? undefined : inner(value, path)), inner.jsonSchema, true);
+}
+
+export function nullable<T>(inner: Schema<T>): Schema<T | null> {
+    return schema((value, path) => (value === null ? null : inner(value, path)), { anyOf: [inner.jsonSchema, { type: 'null' }] });
+}
+
+/**
+ * An array whose items all match `item`; `minLength` rejects empty series.
+ */
+export function array<T>(item: Schema<T>, minLength = 0): Schema<T[]> {
+    return schema((value, path) => {
+        if (!Array.isArray(value)) throw new SchemaError(path, 'an array');
+        if (value.length < minLength) throw new SchemaError(path, `at least ${minLength} item(s)`);
+        value.forEach((entry, index) => item(entry, `${path}[${index}]`));
+        return value as T[];
+    }, { type: 'array', items: item.jsonSchema, ...(minLength > 0 ? { minItems: minLength } : {}) });
+}
+
+// Keys whose schema accepts undefined become optional properties
+type UndefinedKeys<S> = { [K in keyof S]: undefined extends Infer<S[K]> ? K : never }[keyof S];
+type ObjectOf<S extends Record<string, Schema<unknown>>> =
+    & { [K in Exclude<keyof S, UndefinedKeys<S>>]: Infer<S[K]> }
+    & { [K in UndefinedKeys<S>]?: Infer<S[K]> };
+
+export function object<S extends Record<string, Schema<unknown>>>(shape: S): Schema<ObjectOf<S>> {
+    const entries = Object.entries(shape);
+    return schema((value, path) => {
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) throw new SchemaError(path, 'an object');
+        for (const [key, field] of entries) {
+            field((value as Record<string, unknown>)[key], path ? `${path}.${key}` : key);
+        }
+        return value as ObjectOf<S>;
+    }, {
+        type: 'object',
+        properties: Object.fromEntries(entries.map(([key, field]) => [key, field.jsonSchema])),
+        required: entries.filter(([, field]) => !field.isOptional).map(([key]) => key),
+    });
+}
+
+/**
+ * Validates an upstream payload.
+ * @throws UpstreamInvalidError naming the service and the first mismatching field.
+ */
+export function parseUpstream<T>(valueSchema: Schema<T>, value: unknown, service: string): T {
+    try {
+        return valueSchema(value);
+    } catch (error) {
+        if (error instanceof SchemaError) {
+            logger.error('Upstream payload failed validation', { service, reason: error.message });
+            incrementCounter('schema_validation_failures_total', { kind: 'upstream', source: service });
+            throw new UpstreamInvalidError(service, error.path);
+        }
+        throw error;
+    }
+}
+
+/**
+ * Validates a cached document read from `cacheName` (null, i.e. no document, passes through).
+ * @returns The typed document, or null if there is none or it doesn't match (callers treat both as a
+ * miss, and the next write replaces the bad entry).
+ */
+export function parseCached<T>(valueSchema: Schema<T>, value: unknown, cacheName: string): T | null {
+    if (value === null || value === undefined) {
+        return null;
+    }
+    try {
+        return valueSchema(value);
+    } catch (error) {
+        if (error instanceof SchemaError) {
+            logger.warn('Discarding cache entry that failed validation', { cache: cacheName, reason: error.message });
+            incrementCounter('schema_validation_failures_total', { kind: 'cache', source: cacheName });
+            return null;
+        }
+        throw error;
+    }
+}
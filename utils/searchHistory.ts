@@ -0,0 +1,86 @@
+import {
+    collection, deleteDoc, doc, getDocs, limit, onSnapshot, orderBy, query, setDoc, writeBatch, Unsubscribe,
+} from 'firebase/firestore';
+import { getCityDocumentId, getFirebaseContext, getUserCollectionPath } from '@/utils/firebase';
+
+// --- Per-User Search History (client-side, /artifacts/{appId}/users/{userId}/search_history) ---
+// One document per place, keyed by getCityDocumentId (name|countryCode|admin1, lowercased), holding the last result shown for it.
+
+const SEARCH_HISTORY_COLLECTION = 'search_history';
+
+// How many cities are kept; older searches are deleted when a new one is saved
+const parsedLimit = Number(process.env.NEXT_PUBLIC_SEARCH_HISTORY_LIMIT);
+export const SEARCH_HISTORY_LIMIT = Number.isInteger(parsedLimit) && parsedLimit > 0 ? parsedLimit : 10;
+
+interface HistoryItem {
+    cityName: string;
+    countryCode?: string;
+    admin1?: string;
+}
+
+type StoredHistoryItem<T> = T & { searchedAt: number };
+
+async function getHistoryCollection() {
+    const { db, appId, userId } = await getFirebaseContext();
+    return collection(db, getUserCollectionPath(SEARCH_HISTORY_COLLECTION, appId, userId));
+}
+
+/**
+ * Streams the signed-in user's history, most recent first, into `onChange`.
+ * @returns The unsubscribe function.
+ * @throws If Firebase is not configured or anonymous sign-in fails.
+ */
+export async function subscribeToSearchHistory<T extends HistoryItem>(
+    onChange: (items: T[]) => void,
+    onError: (error: Error) => void,
+): Promise<Unsubscribe> {
+    const historyCollection = await getHistoryCollection();
+    const historyQuery = query(historyCollection, orderBy('searchedAt', 'desc'), limit(SEARCH_HISTORY_LIMIT));
+
+    return onSnapshot(historyQuery, (snapshot) => {
+        onChange(snapshot.docs.map((document) => {
+            // searchedAt is bookkeeping, not part of the item
+            const item: Partial<StoredHistoryItem<T>> = document.data() as StoredHistoryItem<T>;
+            delete item.searchedAt;
+            return item as unknown as T;
+        }));
+    }, onError);
+}
+
+/**
+ * Records a search (moving the city to the top) and trims the history to SEARCH_HISTORY_LIMIT.
+ */
+export async function saveSearch<T extends HistoryItem>(item: T): Promise<void> {
+    const historyCollection = await getHistoryCollection();
+    await setDoc(doc(historyCollection, getCityDocumentId(item)), { ...item, searchedAt: Date.now() });
+
+    const snapshot = await getDocs(query(historyCollection, orderBy('searchedAt', 'desc')));
+    await Promise.all(snapshot.docs.slice(SEARCH_HISTORY_LIMIT).map((document) => deleteDoc(document.ref)));
+}
+
+/**
+ * Overwrites stored items with fresh data (e.g., after a units change) without reordering them.
+ */
+export async function updateSearches<T extends HistoryItem>(items: T[]): Promise<void> {
+    if (items.length === 0) return;
+
+    const { db } = await getFirebaseContext();
+    const historyCollection = await getHistoryCollection();
+    const batch = writeBatch(db);
+    items.forEach((item) => batch.set(doc(historyCollection, getCityDocumentId(item)), item, { merge: true }));
+    await batch.commit();
+}
+
+/**
+ * Deletes the signed-in user's whole search history.
+ */
+export async function clearSearchHistory(): Promise<void> {
+    const { db } = await getFirebaseContext();
+    const historyCollection = await getHistoryCollection();
+    const snapshot = await getDocs(historyCollection);
+    if (snapshot.empty) return;
+
+    const batch = writeBatch(db);
+    snapshot.docs.forEach((document) => batch.delete(document.ref));
+    await batch.commit();
+}
@@ -0,0 +1,48 @@
+/**
+ * Result of a coalesced call: the shared value plus how many callers joined
+ * the in-flight call on top of the one that started it.
+ */
+export interface SingleFlightResult<T> {
+    value: T;
+    waiters: number;
+}
+
+interface Flight<T> {
+    promise: Promise<T>;
+    waiters: number;
+}
+
+export interface SingleFlight<T> {
+    run(key: string, fn: () => Promise<T>): Promise<SingleFlightResult<T>>;
+}
+
+/**
+ * Deduplicates concurrent async calls per key (per server process).
+ * While a call for a key is pending, further callers for the same key share its
+ * promise instead of starting their own, so they all see the same value or error.
+ */
+export function createSingleFlight<T>(): SingleFlight<T> {
+    const flights = new Map<string, Flight<T>>();
+
+    return {
+        async run(key: string, fn: () => Promise<T>): Promise<SingleFlightResult<T>> {
+            const existing = flights.get(key);
+            if (existing) {
+                existing.waiters += 1;
+                const value = await existing.promise;
+                return { value, waiters: existing.waiters };
+            }
+
+            const flight: Flight<T> = {
+                promise: fn().finally(() => {
+                    flights.delete(key);
+                }),
+                waiters: 0,
+            };
+            flights.set(key, flight);
+
+            const value = await flight.promise;
+            return { value, waiters: flight.waiters };
+        },
+    };
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import type { WeatherData } from '@/utils/contract';
+import { IMPERIAL_UNITS, METRIC_UNITS, applyUnitsToWeather } from '@/utils/units';
+
+// Unrounded, as the providers write it to weather_cache
+const cached: WeatherData = {
+    cityName: 'London', country: 'United Kingdom', temperature: 20.4, description: 'Overcast', weatherCode: 3, condition: 'overcast',
+    windKmh: 14.86, lastUpdated: '2026-10-19T10:00', source: 'cache', provider: 'open-meteo', apparentTemperature: 19.6,
+    windGusts: 31.34, cloudCover: 100, isDay: 1, humidity: 78, tempMax: 21.45, tempMin: 9.1,
+};
+
+describe('applyUnitsToWeather', () => {
+    it('rounds once, after converting', () => {
+        const imperial = applyUnitsToWeather(cached, IMPERIAL_UNITS);
+        expect(imperial.temperature).toBe(69); // 68.72 °F; rounding to 20 °C first would give 68
+        expect(imperial.apparentTemperature).toBe(67);
+        expect(imperial.tempMax).toBe(71);
+        expect(imperial.windSpeed).toBe(9.2);
+        expect(imperial.windGusts).toBe(19.5);
+    });
+
+    it('rounds the canonical metric values for display', () => {
+        const metric = applyUnitsToWeather(cached, METRIC_UNITS);
+        expect(metric.temperature).toBe(20);
+        expect(metric.tempMax).toBe(21);
+        expect(metric.windKmh).toBe(14.9);
+        expect(metric.windSpeed).toBe(14.9);
+        expect(metric.windGusts).toBe(31.3);
+    });
+});
@@ -0,0 +1,79 @@
+import {
+    TEMPERATURE_UNITS, TemperatureUnit, UnitSelection, WIND_SPEED_UNITS, WeatherData, WeatherResponse, WindSpeedUnit,
+} from '@/utils/contract';
+import { WeatherFetchError } from '@/utils/errors';
+
+// --- Unit Selection ---
+// Caches always hold canonical metric values (°C, km/h), unrounded; conversion and rounding happen
+// on the way out, so clients asking for different units share the same cache entry and a value is
+// rounded once (20.4 °C is 69 °F, not 68 °F by way of 20 °C).
+
+export const METRIC_UNITS: UnitSelection = { temperature: 'celsius', windSpeed: 'kmh' };
+export const IMPERIAL_UNITS: UnitSelection = { temperature: 'fahrenheit', windSpeed: 'mph' };
+
+// Multiply km/h by these factors to get the target unit
+const KMH_TO: Record<WindSpeedUnit, number> = {
+    kmh: 1,
+    mph: 0.621371,
+    ms: 1 / 3.6,
+    kn: 0.539957,
+};
+
+/**
+ * Reads ?units=metric|imperial plus the optional ?temperature_unit= and ?wind_speed_unit= overrides.
+ * @throws WeatherFetchError (400) for unknown values.
+ */
+export function parseUnitSelection(searchParams: URLSearchParams): UnitSelection {
+    const preset = (searchParams.get('units') || 'metric').toLowerCase();
+    if (preset !== 'metric' && preset !== 'imperial') {
+        throw new WeatherFetchError('Bad Request: units must be metric or imperial', 400);
+    }
+
+    const selection: UnitSelection = { ...(preset === 'imperial' ? IMPERIAL_UNITS : METRIC_UNITS) };
+
+    const temperature = searchParams.get('temperature_unit')?.toLowerCase();
+    if (temperature) {
+        if (!TEMPERATURE_UNITS.includes(temperature as TemperatureUnit)) {
+            throw new WeatherFetchError(`Bad Request: temperature_unit must be one of ${TEMPERATURE_UNITS.join(', ')}`, 400);
+        }
+        selection.temperature = temperature as TemperatureUnit;
+    }
+
+    const windSpeed = searchParams.get('wind_speed_unit')?.toLowerCase();
+    if (windSpeed) {
+        if (!WIND_SPEED_UNITS.includes(windSpeed as WindSpeedUnit)) {
+            throw new WeatherFetchError(`Bad Request: wind_speed_unit must be one of ${WIND_SPEED_UNITS.join(', ')}`, 400);
+        }
+        selection.windSpeed = windSpeed as WindSpeedUnit;
+    }
+
+    return selection;
+}
+
+/**
+ * Converts a canonical °C value, rounded to a whole degree.
+ */
+export function convertTemperature(celsius: number, unit: TemperatureUnit): number {
+    return unit === 'fahrenheit' ? Math.round(celsius * 9 / 5 + 32) : Math.round(celsius);
+}
+
+/**
+ * Converts a canonical km/h value, rounded to one decimal place.
+ */
+export function convertWindSpeed(kmh: number, unit: WindSpeedUnit): number {
+    return Math.round(kmh * KMH_TO[unit] * 10) / 10;
+}
+
+export function applyUnitsToWeather(data: WeatherData, units: UnitSelection): WeatherResponse {
+    return {
+        ...data,
+        temperature: convertTemperature(data.temperature, units.temperature),
+        apparentTemperature: convertTemperature(data.apparentTemperature, units.temperature),
+        tempMax: convertTemperature(data.tempMax, units.temperature),
+        tempMin: convertTemperature(data.tempMin, units.temperature),
+        windKmh: convertWindSpeed(data.windKmh, 'kmh'),
+        windSpeed: convertWindSpeed(data.windKmh, units.windSpeed),
+        windGusts: convertWindSpeed(data.windGusts, units.windSpeed),
+        units,
+    };
+}
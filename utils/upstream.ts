@@ -0,0 +1,205 @@
+import { readNumberEnv } from '@/utils/env';
+import { UpstreamDownError, UpstreamInvalidError, WeatherFetchError } from '@/utils/errors';
+import { logger, recordUpstreamTiming } from '@/utils/logger';
+import { incrementCounter, observeHistogram, setGauge, startTimer } from '@/utils/metrics';
+import { getUpstreamMode, recordUpstreamFixture, replayUpstreamFixture } from '@/utils/upstreamFixtures';
+
+// --- Shared Upstream Client: timeouts, jittered exponential backoff and a circuit breaker ---
+
+// Config-driven routes (proxyRoutes.config.ts) get one breaker each, named after their path
+export type UpstreamService = 'geocoding' | 'reverse-geocoding' | 'forecast' | 'met-norway' | `proxy:${string}`;
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+interface CircuitBreaker {
+    state: CircuitState;
+    consecutiveFailures: number;
+    openedAt: number; // ms since epoch, 0 while closed
+    trialInFlight: boolean; // Half-open only: the single trial call has been let through
+}
+
+const UPSTREAM_TIMEOUT_MS = readNumberEnv('UPSTREAM_TIMEOUT_MS', 5000);
+const UPSTREAM_MAX_RETRIES = readNumberEnv('UPSTREAM_MAX_RETRIES', 2);
+const UPSTREAM_RETRY_BASE_MS = readNumberEnv('UPSTREAM_RETRY_BASE_MS', 200);
+// Consecutive failed calls (after retries) that open the breaker, and how long it stays open
+const BREAKER_FAILURE_THRESHOLD = readNumberEnv('UPSTREAM_BREAKER_FAILURE_THRESHOLD', 5) || 5;
+const BREAKER_COOLDOWN_MS = readNumberEnv('UPSTREAM_BREAKER_COOLDOWN_MS', 30 * 1000);
+
+/**
+ * Raised without touching the network while a service's breaker is open.
+ * Routes treat it like any other upstream failure, so stale-if-error still applies.
+ */
+export class CircuitOpenError extends UpstreamDownError {
+    constructor(public readonly service: UpstreamService) {
+        super(`Service Unavailable: ${service} upstream is temporarily disabled after repeated failures`, 503);
+        this.name = 'CircuitOpenError';
+    }
+}
+
+// Numeric encoding of CircuitState for the upstream_circuit_state gauge
+const CIRCUIT_STATE_VALUES: Record<CircuitState, number> = { 'closed': 0, 'half-open': 1, 'open': 2 };
+
+const breakers = new Map<UpstreamService, CircuitBreaker>();
+
+function getBreaker(service: UpstreamService): CircuitBreaker {
+    let breaker = breakers.get(service);
+    if (!breaker) {
+        breaker = { state: 'closed', consecutiveFailures: 0, openedAt: 0, trialInFlight: false };
+        breakers.set(service, breaker);
+        setGauge('upstream_circuit_state', { service }, CIRCUIT_STATE_VALUES.closed);
+    }
+    return breaker;
+}
+
+function transition(service: UpstreamService, breaker: CircuitBreaker, next: CircuitState, reason: string): void {
+    if (breaker.state === next) return;
+    logger.warn('Circuit breaker state changed', { service, from: breaker.state, to: next, reason });
+    breaker.state = next;
+    breaker.openedAt = next === 'open' ? Date.now() : 0;
+    // The trial's outcome always moves a half-open breaker on, which ends the trial
+    breaker.trialInFlight = false;
+    setGauge('upstream_circuit_state', { service }, CIRCUIT_STATE_VALUES[next]);
+}
+
+function recordSuccess(service: UpstreamService): void {
+    const breaker = getBreaker(service);
+    breaker.consecutiveFailures = 0;
+    transition(service, breaker, 'closed', 'call succeeded');
+}
+
+function recordFailure(service: UpstreamService): void {
+    const breaker = getBreaker(service);
+    breaker.consecutiveFailures += 1;
+
+    if (breaker.state === 'half-open') {
+        transition(service, breaker, 'open', 'trial call failed');
+    } else if (breaker.consecutiveFailures >= BREAKER_FAILURE_THRESHOLD) {
+        transition(service, breaker, 'open', `${breaker.consecutiveFailures} consecutive failures`);
+    }
+}
+
+// Full jitter: a random delay between 0 and base * 2^attempt
+function backoffDelayMs(attempt: number): number {
+    return Math.random() * UPSTREAM_RETRY_BASE_MS * 2 ** attempt;
+}
+
+// Every attempt feeds the metrics and the current request's log context
+function recordAttempt(service: UpstreamService, seconds: number, status: string): void {
+    observeHistogram('upstream_request_duration_seconds', { service }, seconds);
+    incrementCounter('upstream_responses_total', { service, status });
+    recordUpstreamTiming({ service, durationMs: Math.round(seconds * 1000), status });
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * fetch() for Open-Meteo and the other upstreams. Each attempt is bounded by UPSTREAM_TIMEOUT_MS;
+ * network errors, timeouts and 5xx responses are retried up to UPSTREAM_MAX_RETRIES times.
+ * 4xx responses are returned as-is (the upstream is healthy, the request is not).
+ * UPSTREAM_MODE=record also saves the returned response as a fixture; UPSTREAM_MODE=replay
+ * answers from the fixtures instead, bypassing retries and the breaker (see utils/upstreamFixtures.ts).
+ * @param headers Extra request headers (e.g., the User-Agent MET Norway requires).
+ * @throws CircuitOpenError (503) while the service's breaker is open.
+ * @throws UpstreamDownError (502) if every attempt failed at the network level, or in replay mode if
+ * no response was recorded for this URL.
+ */
+export async function upstreamFetch(service: UpstreamService, url: string, headers?: Record<string, string>): Promise<Response> {
+    const mode = getUpstreamMode();
+
+    if (mode === 'replay') {
+        const response = await replayUpstreamFixture(service, url);
+        recordAttempt(service, 0, String(response.status));
+        return response;
+    }
+
+    const response = await fetchWithRetries(service, url, headers);
+    if (mode === 'record') {
+        await recordUpstreamFixture(service, url, response.clone());
+    }
+    return response;
+}
+
+async function fetchWithRetries(service: UpstreamService, url: string, headers?: Record<string, string>): Promise<Response> {
+    const breaker = getBreaker(service);
+
+    if (breaker.state === 'open') {
+        if (Date.now() - breaker.openedAt < BREAKER_COOLDOWN_MS) {
+            incrementCounter('upstream_circuit_rejections_total', { service });
+            throw new CircuitOpenError(service);
+        }
+        // Cooldown elapsed: let this call through as a trial
+        transition(service, breaker, 'half-open', 'cooldown elapsed');
+    } else if (breaker.state === 'half-open' && breaker.trialInFlight) {
+        // Concurrent callers wait for the trial's verdict instead of each testing the upstream
+        incrementCounter('upstream_circuit_rejections_total', { service });
+        throw new CircuitOpenError(service);
+    }
+
+    if (breaker.state === 'half-open') {
+        breaker.trialInFlight = true;
+    }
+
+    // A half-open breaker only gets a single attempt
+    const maxAttempts = breaker.state === 'half-open' ? 1 : UPSTREAM_MAX_RETRIES + 1;
+    let lastError: unknown = null;
+
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+        if (attempt > 0) {
+            await sleep(backoffDelayMs(attempt - 1));
+        }
+
+        const elapsed = startTimer();
+        try {
+            const response = await fetch(url, { headers, signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS) });
+            recordAttempt(service, elapsed(), String(response.status));
+
+            if (response.status < 500) {
+                recordSuccess(service);
+                return response;
+            }
+
+            lastError = new Error(`${service} responded with status ${response.status}`);
+            if (attempt === maxAttempts - 1) {
+                // Out of retries: hand the 5xx to the caller, which maps it to a 502
+                recordFailure(service);
+                return response;
+            }
+            // Discard the body of a response we're about to retry
+            await response.body?.cancel();
+        } catch (error) {
+            lastError = error;
+            const status = error instanceof Error && error.name === 'TimeoutError' ? 'timeout' : 'network_error';
+            recordAttempt(service, elapsed(), status);
+        }
+
+        logger.warn('Upstream attempt failed', { service, attempt: attempt + 1, maxAttempts, error: lastError });
+    }
+
+    recordFailure(service);
+    const errorMessage = lastError instanceof Error ? lastError.message : 'Unknown error';
+    throw new UpstreamDownError(`Bad Gateway: ${service} upstream unreachable (${errorMessage})`);
+}
+
+/**
+ * Maps an upstream error status to the error taxonomy: a 5xx (after retries) means the upstream
+ * is down, anything else that it rejected a request we built, i.e. its contract changed.
+ */
+export function upstreamStatusError(service: UpstreamService, status: number, message: string): WeatherFetchError {
+    return status >= 500 ? new UpstreamDownError(message) : new UpstreamInvalidError(service, `status ${status}`);
+}
+
+/**
+ * Reads an upstream response body as JSON (validate it with parseUpstream before use).
+ * @throws UpstreamInvalidError if the body is not JSON.
+ */
+export async function readUpstreamJson(service: UpstreamService, response: Response): Promise<unknown> {
+    try {
+        return await response.json();
+    } catch (error) {
+        logger.error('Upstream response is not valid JSON', { service, status: response.status, error });
+        incrementCounter('schema_validation_failures_total', { kind: 'upstream', source: service });
+        throw new UpstreamInvalidError(service, 'body');
+    }
+}
@@ -0,0 +1,113 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { UpstreamDownError } from '@/utils/errors';
+import { logger } from '@/utils/logger';
+import type { UpstreamService } from '@/utils/upstream';
+
+// --- Upstream Record/Replay (offline development and integration tests) ---
+// UPSTREAM_MODE=record saves every upstream response (geocoding, forecast, MET Norway, proxied routes)
+// as a JSON fixture; UPSTREAM_MODE=replay answers from those files and never touches the network.
+// Combined with CACHE_STORE=memory, the API runs with no external service at all.
+
+export type UpstreamMode = 'live' | 'record' | 'replay';
+
+/**
+ * One recorded upstream response, stored as {UPSTREAM_FIXTURE_DIR}/{service}-{hash of the URL}.json.
+ * JSON bodies are stored parsed so fixtures can be read and edited by hand (e.g. to turn a recorded
+ * answer into a 500 or an empty geocoding result); anything else is kept as text.
+ */
+export interface UpstreamFixture {
+    service: UpstreamService;
+    url: string;
+    status: number;
+    contentType: string | null;
+    recordedAt: string;
+    bodyJson?: unknown;
+    bodyText?: string;
+}
+
+// The last UPSTREAM_MODE value seen and what it parsed to, so an unknown value is logged once
+let modeSetting: string | null = null;
+let modeInstance: UpstreamMode = 'live';
+
+/**
+ * The mode selected by UPSTREAM_MODE. The variable is read on every call (tests switch it between
+ * cases); unknown values fall back to live.
+ */
+export function getUpstreamMode(): UpstreamMode {
+    const setting = process.env.UPSTREAM_MODE || 'live';
+    if (setting !== modeSetting) {
+        const mode = setting.trim().toLowerCase();
+        if (mode === 'live' || mode === 'record' || mode === 'replay') {
+            modeInstance = mode;
+        } else {
+            logger.error('Unknown upstream mode, falling back to live', { setting: 'UPSTREAM_MODE', mode });
+            modeInstance = 'live';
+        }
+        modeSetting = setting;
+    }
+    return modeInstance;
+}
+
+function fixtureFile(service: UpstreamService, url: string): string {
+    const directory = process.env.UPSTREAM_FIXTURE_DIR || path.join('fixtures', 'upstream');
+    // Proxy services contain ':' and '/', which aren't safe in file names everywhere
+    const name = service.replace(/[^\w-]/g, '_');
+    const hash = createHash('sha256').update(url).digest('hex').slice(0, 16);
+    return path.join(directory, `${name}-${hash}.json`);
+}
+
+/**
+ * Saves a response as the fixture for this service and URL, replacing any earlier recording.
+ * Failures are logged, never surfaced: recording must not break the request it observes.
+ * @param response A clone; its body is consumed.
+ */
+export async function recordUpstreamFixture(service: UpstreamService, url: string, response: Response): Promise<void> {
+    const file = fixtureFile(service, url);
+    try {
+        const text = await response.text();
+        let body: Pick<UpstreamFixture, 'bodyJson' | 'bodyText'>;
+        try {
+            body = { bodyJson: JSON.parse(text) };
+        } catch {
+            body = { bodyText: text };
+        }
+
+        const fixture: UpstreamFixture = {
+            service,
+            url,
+            status: response.status,
+            contentType: response.headers.get('Content-Type'),
+            recordedAt: new Date().toISOString(),
+            ...body,
+        };
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        await fs.writeFile(file, JSON.stringify(fixture, null, 2), 'utf8');
+        logger.info('Recorded upstream fixture', { service, status: response.status, file });
+    } catch (error) {
+        logger.error('Failed to record upstream fixture', { service, file, error });
+    }
+}
+
+/**
+ * Rebuilds the recorded response for this service and URL.
+ * @throws UpstreamDownError (502) if nothing was recorded for it, so a missing fixture looks like
+ * an unreachable upstream (and the routes' stale-if-error handling still applies).
+ */
+export async function replayUpstreamFixture(service: UpstreamService, url: string): Promise<Response> {
+    const file = fixtureFile(service, url);
+    let fixture: UpstreamFixture;
+    try {
+        fixture = JSON.parse(await fs.readFile(file, 'utf8')) as UpstreamFixture;
+    } catch (error) {
+        logger.warn('No upstream fixture to replay', { service, url, file, error });
+        throw new UpstreamDownError(`Bad Gateway: No recorded ${service} response for this request (UPSTREAM_MODE=replay)`);
+    }
+
+    const body = fixture.bodyJson !== undefined ? JSON.stringify(fixture.bodyJson) : fixture.bodyText ?? '';
+    return new Response(body, {
+        status: fixture.status,
+        headers: fixture.contentType ? { 'Content-Type': fixture.contentType } : {},
+    });
+}
@@ -0,0 +1,224 @@
+import { CacheStore, getTimestampInMs, isCacheTimestamp } from '@/utils/cacheStore';
+import { readNumberEnv } from '@/utils/env';
+import type { WeatherData } from '@/utils/contract';
+import { weatherRecordSchema } from '@/utils/contractSchemas';
+import { logger } from '@/utils/logger';
+import { Schema, custom, object, parseCached } from '@/utils/schema';
+import { SingleFlight, createSingleFlight } from '@/utils/singleFlight';
+import { fetchCurrentWeather } from '@/utils/weatherProvider';
+import { GeoLocation, LocationQuery, describeLocationQuery, resolveLocation } from '@/utils/geocoding';
+import { describeWeatherCode } from '@/utils/weatherCodes';
+
+export interface CacheEntry {
+    data: Omit<WeatherData, 'source'>;
+    timestamp: number;
+}
+
+// Checked on every read, so an entry written by an older version (or a bad upstream day) is refetched instead of served
+export const cacheEntrySchema: Schema<CacheEntry> = object({
+    data: weatherRecordSchema,
+    timestamp: custom<number>(isCacheTimestamp, 'a timestamp'),
+});
+
+export const CACHE_DURATION_MS = 5 * 60 * 1000; // 5 minutes
+
+// Grace window after expiry: the stale entry is served immediately and refreshed in the background
+export const STALE_WHILE_REVALIDATE_MS = readNumberEnv('CACHE_STALE_WHILE_REVALIDATE_MS', 60 * 1000); // 1 minute
+// Longer window in which a stale entry is served if the upstream fetch or transform fails
+export const STALE_IF_ERROR_MS = readNumberEnv('CACHE_STALE_IF_ERROR_MS', 24 * 60 * 60 * 1000); // 24 hours
+
+/**
+ * Age of a cached entry in milliseconds, relative to `now`.
+ */
+export function getEntryAgeMs(entry: CacheEntry, now: number = Date.now()): number {
+    return now - getTimestampInMs(entry.timestamp);
+}
+
+// --- Cache Read (entries that fail validation count as missing; store errors are thrown) ---
+
+/**
+ * Reads several weather_cache entries in one store call, only valid entries in the result.
+ */
+export async function readWeatherCacheMany(store: CacheStore, cacheKeys: string[]): Promise<Map<string, CacheEntry>> {
+    const entries = new Map<string, CacheEntry>();
+    for (const [cacheKey, value] of await store.getMany<unknown>('weather_cache', cacheKeys)) {
+        const entry = parseCached(cacheEntrySchema, value, 'weather_cache');
+        if (entry) entries.set(cacheKey, entry);
+    }
+    return entries;
+}
+
+// --- Cache Write (errors are logged, never surfaced to the caller) ---
+async function writeWeatherCache(store: CacheStore, cacheKey: string, data: WeatherData, label: string, timestamp: number = Date.now()): Promise<void> {
+    try {
+        // Strip the 'source' field before caching
+        const dataWithoutSource: Omit<WeatherData, 'source'> = {
+            cityName: data.cityName,
+            country: data.country,
+            ...(data.countryCode ? { countryCode: data.countryCode } : {}),
+            ...(data.admin1 ? { admin1: data.admin1 } : {}),
+            temperature: data.temperature,
+            description: data.description,
+            weatherCode: data.weatherCode,
+            condition: data.condition,
+            windKmh: data.windKmh,
+            lastUpdated: data.lastUpdated,
+            provider: data.provider,
+
+            apparentTemperature: data.apparentTemperature,
+            windGusts: data.windGusts,
+            cloudCover: data.cloudCover,
+            isDay: data.isDay,
+            humidity: data.humidity,
+            tempMax: data.tempMax,
+            tempMin: data.tempMin,
+        };
+
+        const dataToCache: CacheEntry = {
+            data: dataWithoutSource,
+            timestamp
+        };
+
+        // Write the new data to the cache store
+        await store.set('weather_cache', cacheKey, dataToCache);
+    } catch (dbError) {
+        logger.error('Failed to write weather cache', { cacheKey, city: label, store: store.name, error: dbError });
+    }
+}
+
+/**
+ * Freshly fetched data plus the timestamp it was cached with (used for HTTP validators).
+ */
+export interface FreshWeather {
+    data: WeatherData;
+    timestamp: number;
+}
+
+// Upstream fetches in progress per cacheKey (per server process), shared by GET misses, background
+// revalidation, batch lookups and the cache warmer, so concurrent callers share one round-trip
+export const weatherFlights: SingleFlight<CacheEntry> = createSingleFlight<CacheEntry>();
+
+/**
+ * Geocodes (or reverse geocodes) the query, fetches current conditions from the first
+ * weather provider that answers, and writes the result to 'weather_cache'.
+ * @throws NotFoundError for an unknown city, UpstreamDownError / UpstreamInvalidError when the upstreams fail.
+ */
+export async function fetchAndCacheWeather(query: LocationQuery, cacheKey: string, store: CacheStore): Promise<FreshWeather> {
+    const label = describeLocationQuery(query);
+
+    // --- Geocoding (City Name to Lat/Lon, or reverse for coordinates), served from geocode_cache when possible ---
+    const location = await resolveLocation(query, store);
+
+    // --- FETCH: Weather Data (Lat/Lon to Weather), failing over between providers ---
+    const [weatherData] = await fetchCurrentWeather([location]);
+
+    // --- Cache (descriptions in the query's language; its cache key is per language too) ---
+    const transformedData: WeatherData = { ...weatherData, description: describeWeatherCode(weatherData.weatherCode, query.language), source: 'api' };
+    const timestamp = Date.now();
+    await writeWeatherCache(store, cacheKey, transformedData, label, timestamp);
+
+    return { data: transformedData, timestamp };
+}
+
+export interface WeatherBatchItem {
+    query: LocationQuery;
+    cacheKey: string;
+}
+
+interface ClaimedItem {
+    item: WeatherBatchItem;
+    resolve: (fresh: FreshWeather) => void;
+    reject: (error: Error) => void;
+}
+
+function toError(reason: unknown): Error {
+    return reason instanceof Error ? reason : new Error(String(reason));
+}
+
+/**
+ * Batch variant of fetchAndCacheWeather: every location is resolved individually
+ * (mostly from geocode_cache), then current conditions for all of them are fetched
+ * in a single provider call (one multi-location request for Open-Meteo).
+ * Keys that a GET or another batch is already fetching join that fetch through weatherFlights,
+ * and the keys this batch fetches are registered there too, so each key has one upstream fetch at a time.
+ * @returns One outcome per distinct cacheKey: the fresh data, or the error for that item.
+ */
+export async function fetchAndCacheWeatherBatch(items: WeatherBatchItem[], store: CacheStore): Promise<Map<string, WeatherData | Error>> {
+    // Duplicate cache keys only need one upstream lookup
+    const uniqueItems = Array.from(new Map(items.map((item) => [item.cacheKey, item])).values());
+
+    // run() only calls the function when no flight is pending for the key, and does so synchronously,
+    // so `claimed` holds exactly the keys this batch has to fetch itself once the loop is done
+    const claimed = new Map<string, ClaimedItem>();
+    const flights = Promise.allSettled(uniqueItems.map((item) => weatherFlights.run(item.cacheKey, () =>
+        new Promise<FreshWeather>((resolve, reject) => {
+            claimed.set(item.cacheKey, { item, resolve, reject });
+        }))));
+
+    if (claimed.size > 0) {
+        const fetched = await fetchAndCacheLocated([...claimed.values()].map(({ item }) => item), store)
+            .catch((error: unknown) => new Map<string, FreshWeather | Error>([...claimed.keys()].map((cacheKey) => [cacheKey, toError(error)])));
+
+        claimed.forEach(({ resolve, reject }, cacheKey) => {
+            const outcome = fetched.get(cacheKey) ?? new Error('No result for item');
+            if (outcome instanceof Error) {
+                reject(outcome);
+            } else {
+                resolve(outcome);
+            }
+        });
+    }
+
+    const outcomes = new Map<string, WeatherData | Error>();
+    (await flights).forEach((result, index) => {
+        const { cacheKey } = uniqueItems[index];
+        // A joined GET flight carries the cached shape, without `source`
+        outcomes.set(cacheKey, result.status === 'fulfilled' ? { ...result.value.value.data, source: 'api' } : toError(result.reason));
+    });
+    return outcomes;
+}
+
+/**
+ * The uncoalesced batch fetch behind fetchAndCacheWeatherBatch.
+ */
+async function fetchAndCacheLocated(items: WeatherBatchItem[], store: CacheStore): Promise<Map<string, FreshWeather | Error>> {
+    const outcomes = new Map<string, FreshWeather | Error>();
+
+    const resolved = await Promise.allSettled(items.map((item) => resolveLocation(item.query, store)));
+
+    const located: { item: WeatherBatchItem; location: GeoLocation }[] = [];
+    resolved.forEach((result, index) => {
+        const item = items[index];
+        if (result.status === 'fulfilled') {
+            located.push({ item, location: result.value });
+        } else {
+            outcomes.set(item.cacheKey, toError(result.reason));
+        }
+    });
+
+    if (located.length === 0) {
+        return outcomes;
+    }
+
+    try {
+        const weatherResults = await fetchCurrentWeather(located.map((l) => l.location));
+        const timestamp = Date.now();
+
+        await Promise.all(located.map(async ({ item }, index) => {
+            try {
+                const weather = weatherResults[index];
+                const transformedData: WeatherData = { ...weather, description: describeWeatherCode(weather.weatherCode, item.query.language), source: 'api' };
+                await writeWeatherCache(store, item.cacheKey, transformedData, describeLocationQuery(item.query), timestamp);
+                outcomes.set(item.cacheKey, { data: transformedData, timestamp });
+            } catch (transformError) {
+                outcomes.set(item.cacheKey, toError(transformError));
+            }
+        }));
+    } catch (error) {
+        // The multi-location call failed as a whole, so every located item shares the error
+        const sharedError = toError(error);
+        located.forEach(({ item }) => outcomes.set(item.cacheKey, sharedError));
+    }
+
+    return outcomes;
+}
@@ -0,0 +1,86 @@
+import { DEFAULT_LANGUAGE, WeatherLanguage } from '@/utils/language';
+
+// --- WMO Weather Interpretation Codes (the full set Open-Meteo reports) ---
+
+/**
+ * Stable, language-independent condition for a weather code. Clients should pick icons and
+ * styling from this rather than from the (localized) description.
+ */
+export const WEATHER_CONDITIONS = [
+    'clear',
+    'mainly-clear',
+    'partly-cloudy',
+    'overcast',
+    'fog',
+    'drizzle',
+    'freezing-drizzle',
+    'rain',
+    'freezing-rain',
+    'rain-showers',
+    'snow',
+    'snow-grains',
+    'snow-showers',
+    'thunderstorm',
+    'thunderstorm-hail',
+    'unknown',
+] as const;
+
+export type WeatherCondition = typeof WEATHER_CONDITIONS[number];
+
+interface WeatherCodeInfo {
+    condition: WeatherCondition;
+    descriptions: Record<WeatherLanguage, string>;
+}
+
+export const WEATHER_CODE_CATALOG: Record<number, WeatherCodeInfo> = {
+    0: { condition: 'clear', descriptions: { en: 'Clear Sky', de: 'Klarer Himmel', fr: 'Ciel dégagé', es: 'Cielo despejado', it: 'Cielo sereno' } },
+    1: { condition: 'mainly-clear', descriptions: { en: 'Mainly Clear', de: 'Überwiegend klar', fr: 'Plutôt dégagé', es: 'Mayormente despejado', it: 'Prevalentemente sereno' } },
+    2: { condition: 'partly-cloudy', descriptions: { en: 'Partly Cloudy', de: 'Teilweise bewölkt', fr: 'Partiellement nuageux', es: 'Parcialmente nublado', it: 'Parzialmente nuvoloso' } },
+    3: { condition: 'overcast', descriptions: { en: 'Overcast', de: 'Bedeckt', fr: 'Couvert', es: 'Cubierto', it: 'Coperto' } },
+    45: { condition: 'fog', descriptions: { en: 'Fog', de: 'Nebel', fr: 'Brouillard', es: 'Niebla', it: 'Nebbia' } },
+    48: { condition: 'fog', descriptions: { en: 'Depositing Rime Fog', de: 'Nebel mit Raureif', fr: 'Brouillard givrant', es: 'Niebla con escarcha', it: 'Nebbia con brina' } },
+    51: { condition: 'drizzle', descriptions: { en: 'Drizzle, Light', de: 'Nieselregen, leicht', fr: 'Bruine, faible', es: 'Llovizna, ligera', it: 'Pioviggine, debole' } },
+    53: { condition: 'drizzle', descriptions: { en: 'Drizzle, Moderate', de: 'Nieselregen, mäßig', fr: 'Bruine, modérée', es: 'Llovizna, moderada', it: 'Pioviggine, moderata' } },
+    55: { condition: 'drizzle', descriptions: { en: 'Drizzle, Dense', de: 'Nieselregen, stark', fr: 'Bruine, dense', es: 'Llovizna, densa', it: 'Pioviggine, intensa' } },
+    56: { condition: 'freezing-drizzle', descriptions: { en: 'Freezing Drizzle, Light', de: 'Gefrierender Nieselregen, leicht', fr: 'Bruine verglaçante, faible', es: 'Llovizna helada, ligera', it: 'Pioviggine gelata, debole' } },
+    57: { condition: 'freezing-drizzle', descriptions: { en: 'Freezing Drizzle, Dense', de: 'Gefrierender Nieselregen, stark', fr: 'Bruine verglaçante, dense', es: 'Llovizna helada, densa', it: 'Pioviggine gelata, intensa' } },
+    61: { condition: 'rain', descriptions: { en: 'Rain, Slight', de: 'Regen, leicht', fr: 'Pluie, faible', es: 'Lluvia, ligera', it: 'Pioggia, debole' } },
+    63: { condition: 'rain', descriptions: { en: 'Rain, Moderate', de: 'Regen, mäßig', fr: 'Pluie, modérée', es: 'Lluvia, moderada', it: 'Pioggia, moderata' } },
+    65: { condition: 'rain', descriptions: { en: 'Rain, Heavy', de: 'Regen, stark', fr: 'Pluie, forte', es: 'Lluvia, fuerte', it: 'Pioggia, forte' } },
+    66: { condition: 'freezing-rain', descriptions: { en: 'Freezing Rain, Light', de: 'Gefrierender Regen, leicht', fr: 'Pluie verglaçante, faible', es: 'Lluvia helada, ligera', it: 'Pioggia gelata, debole' } },
+    67: { condition: 'freezing-rain', descriptions: { en: 'Freezing Rain, Heavy', de: 'Gefrierender Regen, stark', fr: 'Pluie verglaçante, forte', es: 'Lluvia helada, fuerte', it: 'Pioggia gelata, forte' } },
+    71: { condition: 'snow', descriptions: { en: 'Snow, Slight', de: 'Schneefall, leicht', fr: 'Neige, faible', es: 'Nieve, ligera', it: 'Neve, debole' } },
+    73: { condition: 'snow', descriptions: { en: 'Snow, Moderate', de: 'Schneefall, mäßig', fr: 'Neige, modérée', es: 'Nieve, moderada', it: 'Neve, moderata' } },
+    75: { condition: 'snow', descriptions: { en: 'Snow, Heavy', de: 'Schneefall, stark', fr: 'Neige, forte', es: 'Nieve, fuerte', it: 'Neve, forte' } },
+    77: { condition: 'snow-grains', descriptions: { en: 'Snow Grains', de: 'Schneegriesel', fr: 'Neige en grains', es: 'Granos de nieve', it: 'Neve granulosa' } },
+    80: { condition: 'rain-showers', descriptions: { en: 'Rain Showers, Slight', de: 'Regenschauer, leicht', fr: 'Averses de pluie, faibles', es: 'Chubascos, ligeros', it: 'Rovesci di pioggia, deboli' } },
+    81: { condition: 'rain-showers', descriptions: { en: 'Rain Showers, Moderate', de: 'Regenschauer, mäßig', fr: 'Averses de pluie, modérées', es: 'Chubascos, moderados', it: 'Rovesci di pioggia, moderati' } },
+    82: { condition: 'rain-showers', descriptions: { en: 'Rain Showers, Violent', de: 'Regenschauer, heftig', fr: 'Averses de pluie, violentes', es: 'Chubascos, violentos', it: 'Rovesci di pioggia, violenti' } },
+    85: { condition: 'snow-showers', descriptions: { en: 'Snow Showers, Slight', de: 'Schneeschauer, leicht', fr: 'Averses de neige, faibles', es: 'Chubascos de nieve, ligeros', it: 'Rovesci di neve, deboli' } },
+    86: { condition: 'snow-showers', descriptions: { en: 'Snow Showers, Heavy', de: 'Schneeschauer, stark', fr: 'Averses de neige, fortes', es: 'Chubascos de nieve, fuertes', it: 'Rovesci di neve, forti' } },
+    95: { condition: 'thunderstorm', descriptions: { en: 'Thunderstorm', de: 'Gewitter', fr: 'Orage', es: 'Tormenta', it: 'Temporale' } },
+    96: { condition: 'thunderstorm-hail', descriptions: { en: 'Thunderstorm with Hail', de: 'Gewitter mit Hagel', fr: 'Orage avec grêle', es: 'Tormenta con granizo', it: 'Temporale con grandine' } },
+    99: { condition: 'thunderstorm-hail', descriptions: { en: 'Thunderstorm with Heavy Hail', de: 'Gewitter mit starkem Hagel', fr: 'Orage avec forte grêle', es: 'Tormenta con granizo fuerte', it: 'Temporale con forte grandine' } },
+};
+
+const UNKNOWN_DESCRIPTIONS: Record<WeatherLanguage, string> = {
+    en: 'Unknown Condition',
+    de: 'Unbekannte Wetterlage',
+    fr: 'Conditions inconnues',
+    es: 'Condición desconocida',
+    it: 'Condizioni sconosciute',
+};
+
+/**
+ * Maps a WMO weather code to its text description in the given language.
+ */
+export function describeWeatherCode(code: number, language: WeatherLanguage = DEFAULT_LANGUAGE): string {
+    return WEATHER_CODE_CATALOG[code]?.descriptions[language] ?? UNKNOWN_DESCRIPTIONS[language];
+}
+
+/**
+ * Maps a WMO weather code to its condition ('unknown' for codes outside the catalog).
+ */
+export function getWeatherCondition(code: number): WeatherCondition {
+    return WEATHER_CODE_CATALOG[code]?.condition ?? 'unknown';
+}
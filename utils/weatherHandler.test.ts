@@ -0,0 +1,122 @@
+import { NextRequest } from 'next/server';
+import { describe, expect, it, vi } from 'vitest';
+import type { ErrorBody, WeatherResponse } from '@/utils/contract';
+import { getCacheStore } from '@/utils/cacheStore';
+import { CACHE_DURATION_MS, CacheEntry, STALE_IF_ERROR_MS, STALE_WHILE_REVALIDATE_MS } from '@/utils/weather';
+import { getWeather } from '@/utils/weatherHandler';
+
+// The handler's modules read their settings when first used, so the environment is set before any import runs.
+// Upstream calls are answered from fixtures/upstream; a city without fixtures behaves like an unreachable upstream.
+vi.hoisted(() => {
+    Object.assign(process.env, {
+        CACHE_STORE: 'memory',
+        UPSTREAM_MODE: 'replay',
+        UPSTREAM_FIXTURE_DIR: 'fixtures/upstream',
+        API_AUTH_DISABLED: 'true',
+        WEATHER_PROVIDERS: 'open-meteo',
+        LOG_LEVEL: 'error',
+    });
+});
+
+// after() needs a Next.js request scope; here its tasks are collected so a test can run them once the response is out
+const afterTasks = vi.hoisted(() => [] as Array<() => unknown>);
+vi.mock('next/server', async (importOriginal) => ({
+    ...await importOriginal<typeof import('next/server')>(),
+    after: (task: () => unknown) => {
+        afterTasks.push(task);
+    },
+}));
+
+async function runAfterTasks() {
+    const tasks = afterTasks.splice(0);
+    for (const task of tasks) await task();
+}
+
+async function requestWeather(query: string) {
+    const response = await getWeather(new NextRequest(`http://localhost/api/v1/weather?${query}`));
+    return { response, body: await response.json() as WeatherResponse & ErrorBody };
+}
+
+// Writes a weather_cache entry of the given age, as an earlier request would have
+async function seedWeather(cacheKey: string, ageMs: number) {
+    const data: CacheEntry['data'] = {
+        cityName: 'Seeded', country: 'Nowhere', temperature: 10, description: 'Clear sky', weatherCode: 0, condition: 'clear',
+        windKmh: 5, lastUpdated: '2026-01-01T00:00', provider: 'open-meteo', apparentTemperature: 9, windGusts: 8, cloudCover: 0,
+        isDay: 1, humidity: 50, tempMax: 12, tempMin: 4,
+    };
+    await getCacheStore().set('weather_cache', cacheKey, { data, timestamp: Date.now() - ageMs });
+}
+
+describe('GET /api/v1/weather (replayed upstream, memory cache)', () => {
+    it('fetches a city on the first request and serves it from the cache afterwards', async () => {
+        const miss = await requestWeather('city=London');
+        expect(miss.response.status).toBe(200);
+        expect(miss.response.headers.get('X-Cache')).toBe('MISS');
+        expect(miss.body.source).toBe('api');
+        expect(miss.body.cityName).toBe('London');
+        expect(miss.body.countryCode).toBe('GB');
+
+        const hit = await requestWeather('city=London');
+        expect(hit.response.status).toBe(200);
+        expect(hit.response.headers.get('X-Cache')).toBe('HIT');
+        expect(hit.body.source).toBe('cache');
+        expect(hit.body.temperature).toBe(miss.body.temperature);
+    });
+
+    it('serves an entry inside the stale-while-revalidate window and refreshes it after responding', async () => {
+        await seedWeather('london', CACHE_DURATION_MS + 1000);
+
+        const { response, body } = await requestWeather('city=London');
+        expect(response.status).toBe(200);
+        expect(response.headers.get('X-Cache')).toBe('STALE');
+        expect(body.source).toBe('stale');
+        expect(body.cityName).toBe('Seeded');
+
+        const requestedAt = Date.now();
+        await runAfterTasks();
+        const refreshed = await getCacheStore().get<CacheEntry>('weather_cache', 'london');
+        expect(refreshed?.data.cityName).toBe('London');
+        expect(refreshed?.timestamp).toBeGreaterThanOrEqual(requestedAt);
+    });
+
+    it('refetches an entry that expired beyond the stale-while-revalidate window', async () => {
+        await seedWeather('paris', CACHE_DURATION_MS + STALE_WHILE_REVALIDATE_MS + 1000);
+
+        const { response, body } = await requestWeather('city=Paris');
+        expect(response.status).toBe(200);
+        expect(response.headers.get('X-Cache')).toBe('MISS');
+        expect(body.source).toBe('api');
+        expect(body.cityName).toBe('Paris'); // Not the seeded entry
+    });
+
+    it('returns 404 for a city geocoding has no results for', async () => {
+        const { response, body } = await requestWeather('city=Atlantis');
+        expect(response.status).toBe(404);
+        expect(response.headers.get('X-Cache')).toBeNull();
+        expect(body.code).toBe('not-found');
+    });
+
+    it('returns 502 when the upstream fails and nothing is cached', async () => {
+        const { response, body } = await requestWeather('city=Nowhere');
+        expect(response.status).toBe(502);
+        expect(response.headers.get('X-Cache')).toBeNull();
+        expect(body.code).toBe('upstream-down');
+    });
+
+    it('serves an expired entry instead of a 502 while the upstream fails', async () => {
+        await seedWeather('nowhere', CACHE_DURATION_MS + STALE_WHILE_REVALIDATE_MS + 1000);
+
+        const { response, body } = await requestWeather('city=Nowhere');
+        expect(response.status).toBe(200);
+        expect(response.headers.get('X-Cache')).toBe('STALE');
+        expect(body.source).toBe('stale');
+        expect(body.cityName).toBe('Seeded');
+    });
+
+    it('stops serving the expired entry once it is older than the stale-if-error window', async () => {
+        await seedWeather('nowhere', CACHE_DURATION_MS + STALE_IF_ERROR_MS + 1000);
+
+        const { response } = await requestWeather('city=Nowhere');
+        expect(response.status).toBe(502);
+    });
+});
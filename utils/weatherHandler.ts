@@ -0,0 +1,72 @@
+import { NextRequest, after } from 'next/server';
+import type { UnitSelection } from '@/utils/contract';
+import { getCacheStore } from '@/utils/cacheStore';
+import { serveCached } from '@/utils/cachedFetch';
+import { LocationQuery, describeLocationQuery, getLocationCacheKey, parseLocationQuery } from '@/utils/geocoding';
+import { CACHE_DURATION_MS, cacheEntrySchema, fetchAndCacheWeather, weatherFlights } from '@/utils/weather';
+import { applyUnitsToWeather, parseUnitSelection } from '@/utils/units';
+import { errorJsonResponse } from '@/utils/httpCache';
+import { authenticateRequest } from '@/utils/apiKeys';
+import { getClientId } from '@/utils/rateLimit';
+import { flushRequestCounts, isRequestCountFlushDue, trackRequest } from '@/utils/popularity';
+import { annotateRequest } from '@/utils/logger';
+
+// --- GET handler for current conditions, served at /api/v1/weather and the unversioned /api/weather ---
+// Route files may only export route fields, so the handler lives here and each path wraps it.
+
+/**
+ * GET ?city= (with optional &country= and &admin1=) or ?lat=&lon=, plus ?units= / ?temperature_unit= /
+ * ?wind_speed_unit= and ?lang=. Returns a WeatherResponse (utils/contract.ts) or an ErrorBody.
+ */
+export async function getWeather(request: NextRequest) {
+
+    // Verify the API key (X-API-Key header) and charge one request against its daily quota
+    const auth = await authenticateRequest(request);
+    if (!auth.ok) {
+        return auth.response;
+    }
+    
+    // Extract ?city= or ?lat=&lon= (coordinates are snapped to the cache grid) and the requested units
+    let query: LocationQuery | null;
+    let units: UnitSelection;
+    try {
+        query = parseLocationQuery(request.nextUrl.searchParams);
+        units = parseUnitSelection(request.nextUrl.searchParams);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Bad Request';
+        return errorJsonResponse(message, 400);
+    }
+    
+    if (!query) {
+        return errorJsonResponse('Bad Request: Missing city parameter (or lat and lon)', 400);
+    }
+    
+    const city = describeLocationQuery(query);
+    const cacheKey = getLocationCacheKey(query);
+    annotateRequest({ cacheKey });
+
+    // Resolve the configured cache backend (Firestore, memory or file)
+    const store = getCacheStore();
+
+    // Popularity counts drive the cache warmer (buffered, written after the response)
+    trackRequest(cacheKey, query);
+    if (isRequestCountFlushDue()) {
+        after(() => flushRequestCounts());
+    }
+
+    // Serve from the cache or the upstream; rate limits are per API key (or per IP when auth is disabled)
+    return serveCached(request, {
+        store,
+        collection: 'weather_cache',
+        entrySchema: cacheEntrySchema,
+        cacheKey,
+        ttlMs: CACHE_DURATION_MS,
+        fetcher: () => fetchAndCacheWeather(query, cacheKey, store),
+        flights: weatherFlights,
+        render: (data, source) => applyUnitsToWeather({ ...data, source }, units),
+        clientId: getClientId(request, auth.key),
+        // ETags differ per unit selection, since the same entry renders differently
+        variant: `${units.temperature}:${units.windSpeed}`,
+        logContext: { city },
+    });
+}
@@ -0,0 +1,75 @@
+import type { GeoLocation } from '@/utils/geocoding';
+import type { WeatherData, WeatherProviderName } from '@/utils/contract';
+import { UpstreamDownError } from '@/utils/errors';
+import { logger } from '@/utils/logger';
+import { createOpenMeteoProvider } from '@/utils/openMeteoProvider';
+import { createMetNorwayProvider } from '@/utils/metNorwayProvider';
+
+// --- Weather Providers (current conditions) with ordered failover ---
+
+/**
+ * Normalized current conditions as produced by a provider; the caller adds `source`.
+ */
+export type ProviderWeather = Omit<WeatherData, 'source'>;
+
+/**
+ * An upstream that turns coordinates into current conditions. Values are always metric
+ * (°C, km/h) and `provider` is set to the provider's name.
+ */
+export interface WeatherProvider {
+    readonly name: WeatherProviderName;
+    /**
+     * Fetches current conditions for one or more locations, in the same order as `locations`.
+     * @throws WeatherFetchError (or any error) if the provider could not answer for every location.
+     */
+    fetchCurrent(locations: GeoLocation[]): Promise<ProviderWeather[]>;
+}
+
+function createProvider(name: string): WeatherProvider | null {
+    switch (name) {
+        case 'open-meteo':
+            return createOpenMeteoProvider();
+        case 'met-norway':
+            return createMetNorwayProvider(process.env.MET_NORWAY_USER_AGENT || 'caching-weather-client/0.1');
+        default:
+            logger.error('Unknown weather provider in WEATHER_PROVIDERS, ignoring it', { provider: name });
+            return null;
+    }
+}
+
+let providersInstance: WeatherProvider[] | null = null;
+
+/**
+ * Providers in failover order, from WEATHER_PROVIDERS (default "open-meteo,met-norway").
+ */
+export function getWeatherProviders(): WeatherProvider[] {
+    if (!providersInstance) {
+        const names = (process.env.WEATHER_PROVIDERS || 'open-meteo,met-norway')
+            .split(',').map((name) => name.trim().toLowerCase()).filter(Boolean);
+        providersInstance = names.map(createProvider).filter((provider): provider is WeatherProvider => provider !== null);
+
+        if (providersInstance.length === 0) {
+            providersInstance = [createOpenMeteoProvider()];
+        }
+    }
+    return providersInstance;
+}
+
+/**
+ * Asks each configured provider in turn until one answers for all locations.
+ * @throws The last provider's error if every provider failed.
+ */
+export async function fetchCurrentWeather(locations: GeoLocation[]): Promise<ProviderWeather[]> {
+    let lastError: unknown = new UpstreamDownError('Bad Gateway: No weather provider available');
+
+    for (const provider of getWeatherProviders()) {
+        try {
+            return await provider.fetchCurrent(locations);
+        } catch (error) {
+            lastError = error;
+            logger.warn('Weather provider failed, trying the next one', { provider: provider.name, locations: locations.length, error });
+        }
+    }
+
+    throw lastError;
+}
@@ -0,0 +1,15 @@
+import { fileURLToPath } from 'url';
+import { defineConfig } from 'vitest/config';
+
+// Unit and integration tests (`npm test`); upstream calls are replayed from fixtures/upstream
+export default defineConfig({
+    resolve: {
+        // Same alias as tsconfig.json's paths
+        alias: { '@': fileURLToPath(new URL('.', import.meta.url)) },
+    },
+    test: {
+        environment: 'node',
+        include: ['**/*.test.ts'],
+        exclude: ['node_modules/**', '.next/**'],
+    },
+});